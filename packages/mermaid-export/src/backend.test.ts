@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { backendKey, launchBackend, missingPackage } from './backend.js';
+import type { RenderBackend } from './types.js';
+
+function customBackend(): RenderBackend {
+    return {
+        newPage: () => Promise.reject(new Error('not used')),
+        isConnected: () => true,
+        close: () => Promise.resolve(),
+    };
+}
+
+describe('backendKey', () => {
+    it('should default to puppeteer and tell launch settings apart', () => {
+        expect(backendKey()).toBe(backendKey({ backend: 'puppeteer' }));
+        expect(backendKey({ launchOptions: { executablePath: '/usr/bin/chromium' } })).not.toBe(backendKey());
+        expect(backendKey({ browserWSEndpoint: 'ws://localhost:9222' })).not.toBe(backendKey());
+        expect(backendKey({ backend: 'jsdom' })).not.toBe(backendKey({ backend: 'playwright' }));
+    });
+
+    it('should identify custom backends by object', () => {
+        const first = customBackend();
+        const second = customBackend();
+
+        expect(backendKey({ backend: first })).toBe(backendKey({ backend: first }));
+        expect(backendKey({ backend: first })).not.toBe(backendKey({ backend: second }));
+    });
+});
+
+describe('launchBackend', () => {
+    it('should use custom backends as they are', async () => {
+        const backend = customBackend();
+
+        expect(await launchBackend({ backend })).toBe(backend);
+    });
+
+    it('should launch the jsdom backend', async () => {
+        const backend = await launchBackend({ backend: 'jsdom' });
+
+        expect(backend.isConnected()).toBe(true);
+        await backend.close();
+        expect(backend.isConnected()).toBe(false);
+    });
+
+    it('should reject invalid choices', async () => {
+        await expect(launchBackend({ backend: 'jsdom', browserWSEndpoint: 'ws://localhost:9222' })).rejects.toThrow('cannot connect to a browser');
+        await expect(launchBackend({ backend: 'webkit' as 'jsdom' })).rejects.toThrow('Unknown backend "webkit"');
+    });
+});
+
+describe('missingPackage', () => {
+    it('should explain how to install a missing backend package', () => {
+        const error = missingPackage('playwright', Object.assign(new Error("Cannot find package 'playwright'"), { code: 'ERR_MODULE_NOT_FOUND' }));
+
+        expect((error as Error).message).toBe('The playwright backend needs the playwright package. Install it with: npm install playwright');
+    });
+
+    it('should pass other errors through', () => {
+        const error = new Error('broken');
+
+        expect(missingPackage('playwright', error)).toBe(error);
+    });
+});
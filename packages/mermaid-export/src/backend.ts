@@ -0,0 +1,61 @@
+import { launchJsdom } from './jsdom.js';
+import { launchPlaywright } from './playwright.js';
+import { launchPuppeteer } from './puppeteer.js';
+import type { BackendOptions, RenderBackend } from './types.js';
+
+/** Ids for caller-provided backends, so they can be told apart in cache keys */
+const customBackendIds = new WeakMap<RenderBackend, number>();
+let nextCustomBackendId = 1;
+
+/**
+ * A key identifying the backend `options` describe, for reusing it across renders
+ */
+export function backendKey(options: BackendOptions = {}): string {
+    const { backend = 'puppeteer', browserWSEndpoint, launchOptions } = options;
+    if (typeof backend === 'object') {
+        let id = customBackendIds.get(backend);
+        if (id === undefined) {
+            id = nextCustomBackendId++;
+            customBackendIds.set(backend, id);
+        }
+        return `custom:${id}`;
+    }
+    return JSON.stringify([backend, browserWSEndpoint ?? null, launchOptions ?? null]);
+}
+
+/**
+ * Replace the error from importing an optional backend package that isn't
+ * installed with one saying how to install it
+ */
+export function missingPackage(name: string, error: unknown): unknown {
+    const code = (error as { code?: string } | null)?.code;
+    if (code !== 'ERR_MODULE_NOT_FOUND' && code !== 'MODULE_NOT_FOUND') {
+        return error;
+    }
+    return new Error(`The ${name} backend needs the ${name} package. Install it with: npm install ${name}`, { cause: error });
+}
+
+/**
+ * Launch the backend `options` choose, or connect to the browser at
+ * `browserWSEndpoint`
+ */
+export async function launchBackend(options: BackendOptions = {}): Promise<RenderBackend> {
+    const { backend = 'puppeteer' } = options;
+    if (typeof backend === 'object') {
+        return backend;
+    }
+
+    switch (backend) {
+        case 'puppeteer':
+            return launchPuppeteer(options);
+        case 'playwright':
+            return launchPlaywright(options);
+        case 'jsdom':
+            if (options.browserWSEndpoint) {
+                throw new Error('The jsdom backend runs in Node and cannot connect to a browser');
+            }
+            return launchJsdom();
+        default:
+            throw new Error(`Unknown backend "${backend as string}". Expected one of: puppeteer, playwright, jsdom`);
+    }
+}
@@ -0,0 +1,95 @@
+import { resolveMermaidScript } from './mermaid-source.js';
+import { createPool } from './pool.js';
+import { openWarmPage, renderOnWarmPage } from './renderer.js';
+import type { ExportOptions, PdfPageOptions } from './types.js';
+
+/**
+ * Options for exporting many diagrams at once
+ */
+export interface BatchExportOptions extends Omit<ExportOptions, 'format' | keyof PdfPageOptions> {
+    /** Output format for every diagram (default: 'svg') */
+    format?: Exclude<ExportOptions['format'], 'pdf'>;
+    /** Diagrams rendered in parallel, each on its own browser page (default: 4) */
+    concurrency?: number;
+    /** Called after each diagram finishes, whether it succeeded or failed */
+    onProgress?: (progress: BatchProgress) => void;
+}
+
+export interface BatchProgress {
+    /** Index of the diagram that just finished */
+    index: number;
+    /** Diagrams finished so far, including failures */
+    completed: number;
+    /** Diagrams that failed so far */
+    failed: number;
+    total: number;
+}
+
+/** Outcome of one diagram, in the same order as the input */
+export type BatchResult =
+    | { index: number; ok: true; output: Buffer | string }
+    | { index: number; ok: false; error: Error };
+
+/**
+ * Export many Mermaid diagrams using a pool of browser pages that load
+ * Mermaid once and are reused, which is much faster than exporting them
+ * one by one. A failing diagram doesn't stop the batch; its error is
+ * returned in its result instead.
+ *
+ * @example
+ * ```typescript
+ * import { exportMany } from 'mermaid-export';
+ *
+ * const results = await exportMany(diagrams, {
+ *   format: 'png',
+ *   concurrency: 8,
+ *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`)
+ * });
+ *
+ * for (const result of results) {
+ *   if (!result.ok) console.error(`Diagram ${result.index}: ${result.error.message}`);
+ * }
+ * ```
+ */
+export async function exportMany(diagrams: string[], options: BatchExportOptions = {}): Promise<BatchResult[]> {
+    const { concurrency = 4, onProgress, format = 'svg', ...renderOptions } = options;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`concurrency must be a positive integer, got ${concurrency}`);
+    }
+    if ((format as string) === 'pdf') {
+        throw new Error('exportMany does not support pdf; use exportToPdf to put many diagrams in one PDF');
+    }
+    if (diagrams.length === 0) {
+        return [];
+    }
+
+    // Resolve once so a bad mermaidPath or version fails the batch up front
+    const script = resolveMermaidScript(renderOptions);
+    const pool = createPool({
+        size: Math.min(concurrency, diagrams.length),
+        create: () => openWarmPage(script, renderOptions),
+        destroy: page => page.close(),
+        isHealthy: page => !page.isClosed(),
+    });
+
+    let completed = 0;
+    let failed = 0;
+
+    try {
+        return await Promise.all(diagrams.map(async (diagram, index): Promise<BatchResult> => {
+            let result: BatchResult;
+            try {
+                const output = await pool.use(page => renderOnWarmPage(page, diagram, format, renderOptions));
+                result = { index, ok: true, output };
+            } catch (error) {
+                failed++;
+                result = { index, ok: false, error: error instanceof Error ? error : new Error(String(error)) };
+            }
+            completed++;
+            onProgress?.({ index, completed, failed, total: diagrams.length });
+            return result;
+        }));
+    } finally {
+        await pool.close();
+    }
+}
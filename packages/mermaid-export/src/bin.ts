@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+import { runCli } from './cli.js';
+
+// Ctrl+C ends watch mode cleanly so the shared browser is closed. The handlers
+// are only installed in watch mode, so Ctrl+C still exits a batch render at once.
+const interrupted = () => new Promise<void>(resolve => {
+    process.once('SIGINT', () => resolve());
+    process.once('SIGTERM', () => resolve());
+});
+
+runCli(process.argv.slice(2), { log: console.log, error: console.error, until: interrupted }).then(
+    code => process.exit(code),
+    error => {
+        console.error(error);
+        process.exit(1);
+    }
+);
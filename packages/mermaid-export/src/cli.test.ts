@@ -0,0 +1,336 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, renameSync, rmSync, writeFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+    parseCliArgs,
+    globToRegExp,
+    globBase,
+    expandInputs,
+    outputPath,
+    formatFailure,
+    runCli
+} from './cli.js';
+import { MermaidSyntaxError } from './errors.js';
+
+describe('parseCliArgs', () => {
+    it('should parse inputs and flags', () => {
+        const options = parseCliArgs([
+            'a.mmd', 'docs/*.mmd',
+            '-o', 'out', '--format', 'png', '--theme', 'dark',
+            '--scale', '2', '--background', '#fff', '--concurrency', '2', '--watch'
+        ]);
+
+        expect(options).toEqual({
+            mode: 'diagrams',
+            inputs: ['a.mmd', 'docs/*.mmd'],
+            outDir: 'out',
+            format: 'png',
+            theme: 'dark',
+            scale: 2,
+            background: '#fff',
+            config: undefined,
+            concurrency: 2,
+            backend: undefined,
+            executablePath: undefined,
+            browserWSEndpoint: undefined,
+            watch: true,
+            help: false,
+            imagesDir: undefined,
+            inline: false,
+            pageSize: undefined,
+            orientation: undefined,
+            margin: undefined,
+            sanitize: false,
+            minify: false,
+            xmlDeclaration: false
+        });
+    });
+
+    it('should parse backend options', () => {
+        expect(parseCliArgs(['a.mmd', '--backend', 'playwright', '--executable-path', '/usr/bin/chromium'])).toMatchObject({
+            backend: 'playwright',
+            executablePath: '/usr/bin/chromium'
+        });
+        expect(parseCliArgs(['a.mmd', '--browser-ws-endpoint', 'ws://localhost:9222/devtools/browser/1'])).toMatchObject({
+            browserWSEndpoint: 'ws://localhost:9222/devtools/browser/1'
+        });
+        expect(() => parseCliArgs(['a.mmd', '--backend', 'webkit'])).toThrow('Unknown backend "webkit"');
+        expect(() => parseCliArgs(['a.mmd', '--backend', 'jsdom', '-f', 'png'])).toThrow('--backend jsdom only renders svg');
+    });
+
+    it('should parse SVG output options', () => {
+        expect(parseCliArgs(['a.mmd', '--sanitize', '--minify', '--xml-declaration'])).toMatchObject({
+            sanitize: true,
+            minify: true,
+            xmlDeclaration: true
+        });
+    });
+
+    it('should parse PDF page options', () => {
+        expect(parseCliArgs(['a.mmd', '-f', 'pdf', '--page-size', 'A4', '--orientation', 'landscape', '--margin', '10mm'])).toMatchObject({
+            format: 'pdf',
+            pageSize: 'A4',
+            orientation: 'landscape',
+            margin: '10mm'
+        });
+        expect(() => parseCliArgs(['a.mmd', '--page-size', 'A3'])).toThrow('Unknown page size "A3"');
+        expect(() => parseCliArgs(['a.mmd', '--orientation', 'sideways'])).toThrow('Unknown orientation "sideways"');
+        expect(() => parseCliArgs(['markdown', 'README.md', '-o', 'b', '-f', 'pdf'])).toThrow('markdown images cannot be pdf');
+    });
+
+    it('should parse the markdown command', () => {
+        expect(parseCliArgs(['markdown', 'README.md', '-o', 'build', '--images-dir', 'img', '--inline'])).toMatchObject({
+            mode: 'markdown',
+            inputs: ['README.md'],
+            outDir: 'build',
+            imagesDir: 'img',
+            inline: true
+        });
+        expect(() => parseCliArgs(['markdown', 'README.md'])).toThrow('markdown needs --out-dir');
+        expect(() => parseCliArgs(['markdown', 'README.md', '-o', 'b', '--inline', '-f', 'png'])).toThrow('--inline requires --format svg');
+    });
+
+    it('should default to svg with a concurrency of 4', () => {
+        expect(parseCliArgs(['a.mmd'])).toMatchObject({ format: 'svg', concurrency: 4, watch: false });
+    });
+
+    it('should reject invalid values', () => {
+        expect(() => parseCliArgs(['a.mmd', '-f', 'gif'])).toThrow('Unknown format "gif"');
+        expect(() => parseCliArgs(['a.mmd', '-t', 'pink'])).toThrow('Unknown theme "pink"');
+        expect(() => parseCliArgs(['a.mmd', '-s', '0'])).toThrow('--scale must be a positive number');
+        expect(() => parseCliArgs(['a.mmd', '-c', '1.5'])).toThrow('--concurrency must be a positive integer');
+        expect(() => parseCliArgs([])).toThrow('No input files given');
+        expect(() => parseCliArgs(['a.mmd', '--nope'])).toThrow();
+    });
+});
+
+describe('globs', () => {
+    it('should convert globs to regular expressions', () => {
+        expect(globToRegExp('docs/*.mmd').test('docs/a.mmd')).toBe(true);
+        expect(globToRegExp('docs/*.mmd').test('docs/sub/a.mmd')).toBe(false);
+        expect(globToRegExp('docs/**/*.mmd').test('docs/a.mmd')).toBe(true);
+        expect(globToRegExp('docs/**/*.mmd').test('docs/x/y/a.mmd')).toBe(true);
+        expect(globToRegExp('diagram-?.mmd').test('diagram-1.mmd')).toBe(true);
+        expect(globToRegExp('[ab].mmd').test('b.mmd')).toBe(true);
+        expect(globToRegExp('[!ab].mmd').test('b.mmd')).toBe(false);
+        expect(globToRegExp('a.mmd').test('aXmmd')).toBe(false);
+    });
+
+    it('should find the static base of a glob', () => {
+        expect(globBase('docs/diagrams/**/*.mmd')).toBe('docs/diagrams');
+        expect(globBase('*.mmd')).toBe('.');
+        expect(globBase('/abs/dir/*.mmd')).toBe('/abs/dir');
+    });
+});
+
+describe('expandInputs and outputPath', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'mermaid-cli-'));
+        mkdirSync(join(dir, 'docs', 'nested'), { recursive: true });
+        mkdirSync(join(dir, 'docs', 'node_modules'), { recursive: true });
+        writeFileSync(join(dir, 'docs', 'a.mmd'), 'graph TD\n  A --> B');
+        writeFileSync(join(dir, 'docs', 'nested', 'b.mmd'), 'graph TD\n  B --> C');
+        writeFileSync(join(dir, 'docs', 'notes.md'), '# notes');
+        writeFileSync(join(dir, 'docs', 'node_modules', 'c.mmd'), 'graph TD');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should expand globs, directories and files without duplicates', async () => {
+        const files = await expandInputs(['docs/**/*.mmd', 'docs/a.mmd'], dir);
+
+        expect(files).toEqual([
+            { path: join(dir, 'docs', 'a.mmd'), base: join(dir, 'docs') },
+            { path: join(dir, 'docs', 'nested', 'b.mmd'), base: join(dir, 'docs') }
+        ]);
+        expect(await expandInputs(['docs'], dir)).toHaveLength(2);
+    });
+
+    it('should mirror the input layout under the output directory', () => {
+        const input = { path: join(dir, 'docs', 'nested', 'b.mmd'), base: join(dir, 'docs') };
+
+        expect(outputPath(input, 'png', join(dir, 'out'))).toBe(join(dir, 'out', 'nested', 'b.png'));
+        expect(outputPath(input, 'svg')).toBe(join(dir, 'docs', 'nested', 'b.svg'));
+    });
+
+    it('should render every file and report failures with their line', async () => {
+        const exportFile = vi.fn(async (diagram: string, filePath: string) => {
+            if (diagram.includes('B --> C')) {
+                throw new Error('Mermaid rendering failed: Parse error on line 2:\n...B --> C\nExpecting SEMI');
+            }
+            writeFileSync(filePath, '<svg/>');
+        });
+        const log = vi.fn();
+        const error = vi.fn();
+
+        const code = await runCli([join(dir, 'docs/**/*.mmd'), '-o', join(dir, 'out'), '--theme', 'dark'], {
+            log,
+            error,
+            exportFile
+        });
+
+        expect(code).toBe(1);
+        expect(exportFile).toHaveBeenCalledWith('graph TD\n  A --> B', join(dir, 'out', 'a.svg'), { theme: 'dark' });
+        expect(existsSync(join(dir, 'out', 'a.svg'))).toBe(true);
+        expect(error).toHaveBeenCalledWith(expect.stringMatching(/b\.mmd:2: Mermaid rendering failed: Parse error on line 2:$/));
+    });
+
+    it('should exit with 0 when everything renders', async () => {
+        const exportFile = vi.fn().mockResolvedValue(undefined);
+
+        const code = await runCli([join(dir, 'docs'), '-f', 'png', '-s', '2', '-b', 'white'], { log: vi.fn(), error: vi.fn(), exportFile });
+
+        expect(code).toBe(0);
+        expect(exportFile).toHaveBeenCalledWith(expect.any(String), join(dir, 'docs', 'a.png'), { scale: 2, backgroundColor: 'white' });
+    });
+
+    it('should pass the Mermaid config file to every export', async () => {
+        writeFileSync(join(dir, 'mermaid.json'), JSON.stringify({ theme: 'base', themeVariables: { primaryColor: '#ff0000' } }));
+        const exportFile = vi.fn().mockResolvedValue(undefined);
+
+        const code = await runCli([join(dir, 'docs', 'a.mmd'), '--config', join(dir, 'mermaid.json')], { log: vi.fn(), error: vi.fn(), exportFile });
+
+        expect(code).toBe(0);
+        expect(exportFile).toHaveBeenCalledWith(expect.any(String), expect.any(String), {
+            mermaidConfig: { theme: 'base', themeVariables: { primaryColor: '#ff0000' } }
+        });
+        expect(await runCli([join(dir, 'docs', 'a.mmd'), '--config', join(dir, 'missing.json')], { log: vi.fn(), error: vi.fn(), exportFile })).toBe(2);
+    });
+
+    it('should pass the backend options to every export', async () => {
+        const exportFile = vi.fn().mockResolvedValue(undefined);
+
+        const code = await runCli([join(dir, 'docs', 'a.mmd'), '--backend', 'playwright', '--executable-path', '/opt/chrome'], { log: vi.fn(), error: vi.fn(), exportFile });
+
+        expect(code).toBe(0);
+        expect(exportFile).toHaveBeenCalledWith(expect.any(String), expect.any(String), {
+            backend: 'playwright',
+            launchOptions: { executablePath: '/opt/chrome' }
+        });
+    });
+
+    it('should exit with 2 on usage errors and unmatched inputs', async () => {
+        const error = vi.fn();
+
+        expect(await runCli(['-f', 'gif', 'a.mmd'], { log: vi.fn(), error })).toBe(2);
+        expect(error.mock.calls[0][0]).toContain('Usage: mermaid-export');
+        expect(await runCli([join(dir, 'missing/*.mmd')], { log: vi.fn(), error })).toBe(2);
+    });
+
+    it('should render Markdown files into the output directory', async () => {
+        writeFileSync(join(dir, 'docs', 'guide.md'), '# Guide');
+        const renderMarkdown = vi.fn().mockResolvedValue({ markdown: '', diagrams: [{ rendered: true }, { rendered: false }] });
+        const log = vi.fn();
+
+        const code = await runCli(['markdown', join(dir, 'docs'), '-o', join(dir, 'build')], { log, error: vi.fn(), renderMarkdown });
+
+        expect(code).toBe(0);
+        expect(renderMarkdown).toHaveBeenCalledWith(join(dir, 'docs', 'guide.md'), join(dir, 'build', 'guide.md'), {
+            format: 'svg',
+            imagesDir: join(dir, 'build', 'diagrams'),
+            inline: false
+        });
+        expect(renderMarkdown).toHaveBeenCalledTimes(2);
+        expect(log).toHaveBeenCalledWith(expect.stringContaining('(2 diagrams, 1 rendered)'));
+    });
+
+    it('should refuse to overwrite Markdown inputs', async () => {
+        writeFileSync(join(dir, 'docs', 'guide.md'), '# Guide');
+        const error = vi.fn();
+
+        const code = await runCli(['markdown', join(dir, 'docs', 'guide.md'), '-o', join(dir, 'docs')], { log: vi.fn(), error, renderMarkdown: vi.fn() });
+
+        expect(code).toBe(1);
+        expect(error).toHaveBeenCalledWith(expect.stringContaining('Output would overwrite the input'));
+    });
+
+    it('should re-render changed files in watch mode', async () => {
+        const exportFile = vi.fn().mockResolvedValue(undefined);
+        let stop!: () => void;
+        const until = new Promise<void>(resolve => {
+            stop = resolve;
+        });
+
+        const done = runCli([join(dir, 'docs', 'a.mmd'), '--watch'], { log: vi.fn(), error: vi.fn(), exportFile, until });
+        await vi.waitFor(() => expect(exportFile).toHaveBeenCalledTimes(1));
+
+        writeFileSync(join(dir, 'docs', 'a.mmd'), 'graph LR\n  A --> C');
+        await vi.waitFor(() => expect(exportFile).toHaveBeenCalledTimes(2));
+        expect(exportFile).toHaveBeenLastCalledWith('graph LR\n  A --> C', join(dir, 'docs', 'a.svg'), {});
+
+        stop();
+        expect(await done).toBe(0);
+    });
+
+    it('should re-render files saved by renaming and render new files in watch mode', async () => {
+        const exportFile = vi.fn().mockResolvedValue(undefined);
+        let stop!: () => void;
+        const until = new Promise<void>(resolve => {
+            stop = resolve;
+        });
+
+        const done = runCli([join(dir, 'docs/**/*.mmd'), '--watch'], { log: vi.fn(), error: vi.fn(), exportFile, until });
+        await vi.waitFor(() => expect(exportFile).toHaveBeenCalledTimes(2));
+
+        // How editors save atomically: write a temporary file, then rename it over the original
+        writeFileSync(join(dir, 'docs', 'a.mmd.tmp'), 'graph LR\n  A --> C');
+        renameSync(join(dir, 'docs', 'a.mmd.tmp'), join(dir, 'docs', 'a.mmd'));
+        await vi.waitFor(() => expect(exportFile).toHaveBeenCalledTimes(3));
+        expect(exportFile).toHaveBeenLastCalledWith('graph LR\n  A --> C', join(dir, 'docs', 'a.svg'), {});
+
+        writeFileSync(join(dir, 'docs', 'nested', 'c.mmd'), 'graph TD\n  C --> D');
+        writeFileSync(join(dir, 'docs', 'nested', 'c.txt'), 'not a diagram');
+        await vi.waitFor(() => expect(exportFile).toHaveBeenCalledTimes(4));
+        expect(exportFile).toHaveBeenLastCalledWith('graph TD\n  C --> D', join(dir, 'docs', 'nested', 'c.svg'), {});
+
+        stop();
+        expect(await done).toBe(0);
+        expect(exportFile).toHaveBeenCalledTimes(4);
+    });
+
+    it('should limit watch-mode renders to --concurrency and watch new directories', async () => {
+        let active = 0;
+        let maxActive = 0;
+        const exportFile = vi.fn(async () => {
+            maxActive = Math.max(maxActive, ++active);
+            await new Promise(resolve => setTimeout(resolve, 20));
+            active--;
+        });
+        let stop!: () => void;
+        const until = () => new Promise<void>(resolve => {
+            stop = resolve;
+        });
+
+        const done = runCli([join(dir, 'docs/**/*.mmd'), '--watch', '-c', '1'], { log: vi.fn(), error: vi.fn(), exportFile, until });
+        await vi.waitFor(() => expect(stop).toBeDefined());
+
+        mkdirSync(join(dir, 'docs', 'added'));
+        writeFileSync(join(dir, 'docs', 'added', 'd.mmd'), 'graph TD\n  D --> E');
+        writeFileSync(join(dir, 'docs', 'a.mmd'), 'graph LR\n  A --> D');
+        writeFileSync(join(dir, 'docs', 'nested', 'b.mmd'), 'graph LR\n  B --> D');
+        await vi.waitFor(() => expect(exportFile).toHaveBeenCalledTimes(5));
+
+        expect(exportFile).toHaveBeenCalledWith('graph TD\n  D --> E', join(dir, 'docs', 'added', 'd.svg'), {});
+        expect(maxActive).toBe(1);
+        stop();
+        expect(await done).toBe(0);
+    });
+});
+
+describe('formatFailure', () => {
+    it('should include the line when the error has one', () => {
+        expect(formatFailure('a.mmd', new Error('Parse error on line 3:\nmore'))).toBe('a.mmd:3: Parse error on line 3:');
+        expect(formatFailure('a.mmd', new Error('ENOENT'))).toBe('a.mmd: ENOENT');
+    });
+
+    it('should use the position of syntax errors', () => {
+        const error = new MermaidSyntaxError('Mermaid rendering failed: Parse error on line 2:\n...', { line: 2, column: 7 });
+
+        expect(formatFailure('a.mmd', error)).toBe('a.mmd:2:7: Mermaid rendering failed: Parse error on line 2:');
+    });
+});
@@ -0,0 +1,641 @@
+import { watch, type FSWatcher } from 'node:fs';
+import { mkdir, readdir, readFile, stat } from 'node:fs/promises';
+import { basename, dirname, extname, join, relative, resolve, sep } from 'node:path';
+import { parseArgs } from 'node:util';
+import { exportToFile, closeBrowser } from './index.js';
+import { MermaidSyntaxError } from './errors.js';
+import { renderMarkdownFile } from './markdown.js';
+import type { ExportOptions, MermaidConfig } from './types.js';
+
+type Format = NonNullable<ExportOptions['format']>;
+type Theme = NonNullable<ExportOptions['theme']>;
+type PageSize = NonNullable<ExportOptions['pageSize']>;
+type Orientation = NonNullable<ExportOptions['orientation']>;
+type Backend = 'puppeteer' | 'playwright' | 'jsdom';
+
+const FORMATS: Format[] = ['svg', 'png', 'jpeg', 'webp', 'pdf'];
+const THEMES: Theme[] = ['default', 'forest', 'dark', 'neutral', 'base'];
+const PAGE_SIZES: PageSize[] = ['fit', 'A4', 'Letter'];
+const ORIENTATIONS: Orientation[] = ['portrait', 'landscape'];
+const BACKENDS: Backend[] = ['puppeteer', 'playwright', 'jsdom'];
+
+export const USAGE = `Usage: mermaid-export <files or globs...> [options]
+       mermaid-export markdown <files or globs...> -o <dir> [options]
+
+Renders Mermaid (.mmd) files to images. With "markdown", renders the
+\`\`\`mermaid blocks of Markdown files and writes the Markdown to <dir>
+with the blocks replaced by image links.
+
+Options:
+  -o, --out-dir <dir>      Output directory (default: next to each input)
+  -f, --format <format>    svg | png | jpeg | webp | pdf (default: svg)
+  -t, --theme <theme>      default | forest | dark | neutral | base
+  -s, --scale <number>     Scale factor for raster formats (default: 1)
+  -b, --background <color> Background color
+  --config <file>          Mermaid config JSON (themeVariables, fontFamily, ...)
+  -c, --concurrency <n>    Diagrams rendered in parallel (default: 4)
+  --backend <name>         puppeteer | playwright | jsdom (default: puppeteer)
+  --executable-path <path> Browser to launch instead of the downloaded one
+  --browser-ws-endpoint <url>
+                           Connect to a running Chrome instead of launching one
+  -w, --watch              Re-render files when they change or are added
+  -h, --help               Show this help
+
+PDF options:
+  --page-size <size>       fit | A4 | Letter (default: fit)
+  --orientation <o>        portrait | landscape (default: portrait)
+  --margin <length>        Page margin, e.g. 10mm or 0.5in
+
+SVG options:
+  --sanitize               Remove scripts, event handlers and script links
+  --minify                 Remove comments and whitespace
+  --xml-declaration        Start files with <?xml ...?>
+
+Markdown options:
+  --images-dir <dir>       Where diagram images go (default: <out-dir>/diagrams)
+  --inline                 Inline the SVG instead of linking to images
+
+Examples:
+  mermaid-export diagram.mmd
+  mermaid-export "docs/**/*.mmd" -o build/diagrams -f png --scale 2
+  mermaid-export markdown "docs/**/*.md" -o build/docs`;
+
+export interface CliOptions {
+    /** 'markdown' renders the diagrams embedded in Markdown files */
+    mode: 'diagrams' | 'markdown';
+    inputs: string[];
+    outDir?: string;
+    format: Format;
+    theme?: Theme;
+    scale?: number;
+    background?: string;
+    /** Path to a Mermaid config JSON file */
+    config?: string;
+    concurrency: number;
+    backend?: Backend;
+    executablePath?: string;
+    browserWSEndpoint?: string;
+    watch: boolean;
+    help: boolean;
+    imagesDir?: string;
+    inline: boolean;
+    pageSize?: PageSize;
+    orientation?: Orientation;
+    margin?: string;
+    sanitize: boolean;
+    minify: boolean;
+    xmlDeclaration: boolean;
+}
+
+/**
+ * Parses command-line arguments into CLI options. Throws on invalid usage.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            'out-dir': { type: 'string', short: 'o' },
+            format: { type: 'string', short: 'f' },
+            theme: { type: 'string', short: 't' },
+            scale: { type: 'string', short: 's' },
+            background: { type: 'string', short: 'b' },
+            config: { type: 'string' },
+            concurrency: { type: 'string', short: 'c' },
+            backend: { type: 'string' },
+            'executable-path': { type: 'string' },
+            'browser-ws-endpoint': { type: 'string' },
+            watch: { type: 'boolean', short: 'w' },
+            help: { type: 'boolean', short: 'h' },
+            'images-dir': { type: 'string' },
+            inline: { type: 'boolean' },
+            'page-size': { type: 'string' },
+            orientation: { type: 'string' },
+            margin: { type: 'string' },
+            sanitize: { type: 'boolean' },
+            minify: { type: 'boolean' },
+            'xml-declaration': { type: 'boolean' }
+        }
+    });
+    const mode = positionals[0] === 'markdown' ? 'markdown' : 'diagrams';
+    const inputs = mode === 'markdown' ? positionals.slice(1) : positionals;
+
+    const format = (values.format ?? 'svg') as Format;
+    if (!FORMATS.includes(format)) {
+        throw new Error(`Unknown format "${values.format}". Expected one of: ${FORMATS.join(', ')}`);
+    }
+    const theme = values.theme as Theme | undefined;
+    if (theme !== undefined && !THEMES.includes(theme)) {
+        throw new Error(`Unknown theme "${theme}". Expected one of: ${THEMES.join(', ')}`);
+    }
+    const pageSize = values['page-size'] as PageSize | undefined;
+    if (pageSize !== undefined && !PAGE_SIZES.includes(pageSize)) {
+        throw new Error(`Unknown page size "${pageSize}". Expected one of: ${PAGE_SIZES.join(', ')}`);
+    }
+    const orientation = values.orientation as Orientation | undefined;
+    if (orientation !== undefined && !ORIENTATIONS.includes(orientation)) {
+        throw new Error(`Unknown orientation "${orientation}". Expected one of: ${ORIENTATIONS.join(', ')}`);
+    }
+    const backend = values.backend as Backend | undefined;
+    if (backend !== undefined && !BACKENDS.includes(backend)) {
+        throw new Error(`Unknown backend "${backend}". Expected one of: ${BACKENDS.join(', ')}`);
+    }
+    if (backend === 'jsdom' && format !== 'svg') {
+        throw new Error('--backend jsdom only renders svg');
+    }
+    const scale = values.scale === undefined ? undefined : Number(values.scale);
+    if (scale !== undefined && !(scale > 0)) {
+        throw new Error(`--scale must be a positive number, got "${values.scale}"`);
+    }
+    const concurrency = values.concurrency === undefined ? 4 : Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`--concurrency must be a positive integer, got "${values.concurrency}"`);
+    }
+    if (inputs.length === 0 && !values.help) {
+        throw new Error('No input files given');
+    }
+    if (mode === 'markdown' && !values['out-dir'] && !values.help) {
+        throw new Error('markdown needs --out-dir for the rewritten files');
+    }
+    if (mode === 'markdown' && format === 'pdf') {
+        throw new Error('markdown images cannot be pdf');
+    }
+    if (values.inline && format !== 'svg') {
+        throw new Error('--inline requires --format svg');
+    }
+
+    return {
+        mode,
+        inputs,
+        outDir: values['out-dir'],
+        format,
+        theme,
+        scale,
+        background: values.background,
+        config: values.config,
+        concurrency,
+        backend,
+        executablePath: values['executable-path'],
+        browserWSEndpoint: values['browser-ws-endpoint'],
+        watch: values.watch ?? false,
+        help: values.help ?? false,
+        imagesDir: values['images-dir'],
+        inline: values.inline ?? false,
+        pageSize,
+        orientation,
+        margin: values.margin,
+        sanitize: values.sanitize ?? false,
+        minify: values.minify ?? false,
+        xmlDeclaration: values['xml-declaration'] ?? false
+    };
+}
+
+const GLOB_CHARS = /[*?[]/;
+
+/**
+ * Converts a glob (`*`, `**`, `?`, `[...]`) into a RegExp over '/'-separated paths.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                const slash = pattern[i + 2] === '/';
+                source += slash ? '(?:.*/)?' : '.*';
+                i += slash ? 2 : 1;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                i = end;
+            }
+        } else {
+            source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * The directory part of a glob before its first wildcard segment.
+ */
+export function globBase(pattern: string): string {
+    const segments = pattern.split('/');
+    const index = segments.findIndex(segment => GLOB_CHARS.test(segment));
+    const base = segments.slice(0, index === -1 ? -1 : index).join('/');
+    return base || '.';
+}
+
+/** A matched input file and the directory output paths are relative to */
+export interface InputFile {
+    path: string;
+    base: string;
+}
+
+async function walk(dir: string): Promise<string[]> {
+    const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+    const files: string[] = [];
+    for (const entry of entries) {
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await walk(path));
+        } else if (entry.isFile()) {
+            files.push(path);
+        }
+    }
+    return files;
+}
+
+/**
+ * Expands file paths, directories (every file with one of `extensions`
+ * inside) and globs into input files.
+ */
+export async function expandInputs(inputs: string[], cwd = process.cwd(), extensions = ['.mmd']): Promise<InputFile[]> {
+    const found = new Map<string, InputFile>();
+    const add = (path: string, base: string) => {
+        if (!found.has(path)) found.set(path, { path, base });
+    };
+
+    for (const input of inputs) {
+        const pattern = input.split(sep).join('/');
+        if (!GLOB_CHARS.test(pattern)) {
+            const path = resolve(cwd, input);
+            const info = await stat(path).catch(() => null);
+            if (info?.isDirectory()) {
+                for (const file of await walk(path)) {
+                    if (extensions.includes(extname(file))) add(file, path);
+                }
+            } else {
+                add(path, dirname(path));
+            }
+            continue;
+        }
+
+        const base = resolve(cwd, globBase(pattern));
+        const matcher = globToRegExp(resolve(cwd, pattern).split(sep).join('/'));
+        for (const file of await walk(base)) {
+            if (matcher.test(file.split(sep).join('/'))) add(file, base);
+        }
+    }
+    return [...found.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Output path for an input: its path relative to the input's base, under
+ * `outDir` (or next to the input), with the given extension.
+ */
+export function outputPath(input: InputFile, extension: string, outDir?: string): string {
+    const name = `${basename(input.path, extname(input.path))}.${extension}`;
+    if (!outDir) return join(dirname(input.path), name);
+    return join(resolve(outDir), dirname(relative(input.base, input.path)), name);
+}
+
+/**
+ * Formats a render failure as `file:line:column: message`, using the
+ * position Mermaid reports in parse errors when there is one.
+ */
+export function formatFailure(file: string, error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    const firstLine = message.split('\n')[0];
+    if (error instanceof MermaidSyntaxError && error.line !== undefined) {
+        return `${file}:${error.line}${error.column !== undefined ? `:${error.column}` : ''}: ${firstLine}`;
+    }
+    const line = /\bline (\d+)/i.exec(message)?.[1];
+    return `${file}${line ? `:${line}` : ''}: ${firstLine}`;
+}
+
+/**
+ * Runs tasks with at most `limit` in flight.
+ */
+async function runPool<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            await task(items[next++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+export interface CliIO {
+    log: (message: string) => void;
+    error: (message: string) => void;
+    /** Renders one diagram to a file (default: exportToFile) */
+    exportFile?: (diagram: string, filePath: string, options: Omit<ExportOptions, 'format'>) => Promise<void>;
+    /** Renders the diagrams of one Markdown file (default: renderMarkdownFile) */
+    renderMarkdown?: typeof renderMarkdownFile;
+    /**
+     * Resolves when watch mode should stop (default: never). A function is
+     * only called once watch mode starts.
+     */
+    until?: Promise<void> | (() => Promise<void>);
+}
+
+/**
+ * Runs the mermaid-export command. Resolves with the process exit code:
+ * 0 on success, 1 if any diagram failed, 2 on usage errors.
+ */
+export async function runCli(argv: string[], io: CliIO = { log: console.log, error: console.error }): Promise<number> {
+    const { log, error, exportFile = exportToFile, renderMarkdown = renderMarkdownFile } = io;
+
+    let options: CliOptions;
+    try {
+        options = parseCliArgs(argv);
+    } catch (err) {
+        error(`${(err as Error).message}\n\n${USAGE}`);
+        return 2;
+    }
+    if (options.help) {
+        log(USAGE);
+        return 0;
+    }
+
+    const markdown = options.mode === 'markdown';
+    const extensions = markdown ? ['.md', '.markdown'] : ['.mmd'];
+    const files = await expandInputs(options.inputs, process.cwd(), extensions);
+    if (files.length === 0) {
+        error(`No files match ${options.inputs.join(', ')}`);
+        return 2;
+    }
+
+    let mermaidConfig: MermaidConfig | undefined;
+    if (options.config) {
+        try {
+            mermaidConfig = JSON.parse(await readFile(options.config, 'utf-8')) as MermaidConfig;
+        } catch (err) {
+            error(`Cannot read Mermaid config ${options.config}: ${(err as Error).message}`);
+            return 2;
+        }
+    }
+
+    const exportOptions: Omit<ExportOptions, 'format'> = {
+        ...(mermaidConfig && { mermaidConfig }),
+        ...(options.backend && { backend: options.backend }),
+        ...(options.executablePath && { launchOptions: { executablePath: options.executablePath } }),
+        ...(options.browserWSEndpoint && { browserWSEndpoint: options.browserWSEndpoint }),
+        ...(options.theme && { theme: options.theme }),
+        ...(options.scale !== undefined && { scale: options.scale }),
+        ...(options.background && { backgroundColor: options.background }),
+        ...(options.pageSize && { pageSize: options.pageSize }),
+        ...(options.orientation && { orientation: options.orientation }),
+        ...(options.margin !== undefined && { margin: options.margin }),
+        ...(options.sanitize && { sanitize: true }),
+        ...(options.minify && { minify: true }),
+        ...(options.xmlDeclaration && { xmlDeclaration: true })
+    };
+
+    const imagesDir = resolve(options.imagesDir ?? join(options.outDir ?? '.', 'diagrams'));
+
+    const outputs = new Set<string>();
+    const render = async (file: InputFile): Promise<boolean> => {
+        const name = relative(process.cwd(), file.path) || file.path;
+        try {
+            if (markdown) {
+                const target = outputPath(file, extname(file.path).slice(1), options.outDir);
+                if (target === file.path) {
+                    throw new Error('Output would overwrite the input; choose another --out-dir');
+                }
+                outputs.add(target);
+                const { diagrams } = await renderMarkdown(file.path, target, {
+                    ...exportOptions,
+                    // parseCliArgs rejects pdf in markdown mode
+                    format: options.format as Exclude<Format, 'pdf'>,
+                    imagesDir,
+                    inline: options.inline
+                });
+                const rendered = diagrams.filter(diagram => diagram.rendered).length;
+                log(`${name} -> ${relative(process.cwd(), target) || target} (${diagrams.length} diagrams, ${rendered} rendered)`);
+                return true;
+            }
+
+            const target = outputPath(file, options.format, options.outDir);
+            outputs.add(target);
+            const diagram = await readFile(file.path, 'utf-8');
+            await mkdir(dirname(target), { recursive: true });
+            await exportFile(diagram, target, exportOptions);
+            log(`${name} -> ${relative(process.cwd(), target) || target}`);
+            return true;
+        } catch (err) {
+            error(formatFailure(name, err));
+            return false;
+        }
+    };
+
+    try {
+        let failed = 0;
+        await runPool(files, options.concurrency, async file => {
+            if (!await render(file)) failed++;
+        });
+
+        if (!options.watch) {
+            return failed > 0 ? 1 : 0;
+        }
+
+        log(`Watching ${files.length} file${files.length === 1 ? '' : 's'} for changes...`);
+        // Outputs written under a watched directory must not be rendered in turn
+        const roots = (await watchRoots(options.inputs, process.cwd(), extensions)).map(root => ({
+            ...root,
+            matches: (path: string) => root.matches(path) && !outputs.has(path)
+        }));
+        const expand = () => expandInputs(options.inputs, process.cwd(), extensions);
+        const until = typeof io.until === 'function' ? io.until() : io.until;
+        await watchFiles(files, roots, expand, render, options.concurrency, until);
+        return 0;
+    } finally {
+        await closeBrowser();
+    }
+}
+
+/** A directory watched for changes to the inputs under it */
+interface WatchRoot {
+    dir: string;
+    recursive: boolean;
+    /** Whether a changed path is one of the inputs */
+    matches: (path: string) => boolean;
+}
+
+/** Whether `walk` skips `path`, a file under `dir` */
+function isSkipped(dir: string, path: string): boolean {
+    return relative(dir, path).split(sep).some(segment => segment.startsWith('.') || segment === 'node_modules');
+}
+
+/**
+ * The directories holding the inputs, watched instead of the files so
+ * atomic saves (write a temporary file, rename it over the input) and new
+ * files that match a glob or directory input are seen.
+ */
+async function watchRoots(inputs: string[], cwd: string, extensions: string[]): Promise<WatchRoot[]> {
+    const roots: WatchRoot[] = [];
+    for (const input of inputs) {
+        const pattern = input.split(sep).join('/');
+        if (!GLOB_CHARS.test(pattern)) {
+            const path = resolve(cwd, input);
+            if ((await stat(path).catch(() => null))?.isDirectory()) {
+                roots.push({
+                    dir: path,
+                    recursive: true,
+                    matches: file => extensions.includes(extname(file)) && !isSkipped(path, file)
+                });
+            } else {
+                roots.push({ dir: dirname(path), recursive: false, matches: file => file === path });
+            }
+            continue;
+        }
+
+        const base = resolve(cwd, globBase(pattern));
+        if (!(await stat(base).catch(() => null))?.isDirectory()) continue;
+        const matcher = globToRegExp(resolve(cwd, pattern).split(sep).join('/'));
+        roots.push({
+            dir: base,
+            recursive: true,
+            matches: file => matcher.test(file.split(sep).join('/')) && !isSkipped(base, file)
+        });
+    }
+    return roots;
+}
+
+/**
+ * Watches `dir` and, when `recursive`, everything under it, calling
+ * `listener` with the path of each changed entry. Where fs.watch can't
+ * recurse (Linux before Node 20), each directory gets its own watcher, and
+ * files in directories created later are reported as they are found.
+ */
+async function watchDirectory(dir: string, recursive: boolean, listener: (path: string) => void): Promise<() => void> {
+    const watchers = new Map<string, FSWatcher>();
+    let closed = false;
+
+    const open = (directory: string, options: { recursive: boolean }, onChange: (path: string) => void) => {
+        const watcher = watch(directory, options, (_event, name) => {
+            if (name) onChange(join(directory, name.toString()));
+        });
+        // Emitted when the directory is removed
+        watcher.on('error', () => {
+            watcher.close();
+            watchers.delete(directory);
+        });
+        watchers.set(directory, watcher);
+    };
+
+    const addTree = async (directory: string, announce: boolean) => {
+        if (closed || watchers.has(directory)) return;
+        open(directory, { recursive: false }, path => {
+            listener(path);
+            void stat(path).then(
+                info => (info.isDirectory() && !isSkipped(dir, path) ? addTree(path, true) : undefined),
+                () => { }
+            );
+        });
+        const entries = await readdir(directory, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            const path = join(directory, entry.name);
+            if (isSkipped(dir, path)) continue;
+            if (entry.isDirectory()) {
+                await addTree(path, announce);
+            } else if (announce) {
+                listener(path);
+            }
+        }
+    };
+
+    try {
+        open(dir, { recursive }, listener);
+    } catch (error) {
+        if (!recursive || (error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+        await addTree(dir, false);
+    }
+
+    return () => {
+        closed = true;
+        for (const watcher of watchers.values()) watcher.close();
+    };
+}
+
+/**
+ * Runs tasks with at most `limit` in flight, queueing the rest.
+ */
+function createLimiter(limit: number): <T>(task: () => Promise<T>) => Promise<T> {
+    let active = 0;
+    const queue: (() => void)[] = [];
+    return async task => {
+        if (active < limit) {
+            active++;
+        } else {
+            // The finishing task hands its slot over
+            await new Promise<void>(resolve => queue.push(resolve));
+        }
+        try {
+            return await task();
+        } finally {
+            const next = queue.shift();
+            if (next) next();
+            else active--;
+        }
+    };
+}
+
+/**
+ * Re-renders inputs when they change or are added, one render per file at a
+ * time and at most `concurrency` at once, until `until` resolves (or
+ * forever). `expand` lists the current inputs, to pick up added files.
+ */
+async function watchFiles(
+    files: InputFile[],
+    roots: WatchRoot[],
+    expand: () => Promise<InputFile[]>,
+    render: (file: InputFile) => Promise<boolean>,
+    concurrency: number,
+    until?: Promise<void>
+): Promise<void> {
+    const known = new Map(files.map(file => [file.path, file]));
+    const pending = new Map<string, { timer?: ReturnType<typeof setTimeout>; running: Promise<void> }>();
+    const limit = createLimiter(concurrency);
+
+    const changed = async (path: string) => {
+        if (!known.has(path)) {
+            for (const file of await expand()) {
+                if (!known.has(file.path)) known.set(file.path, file);
+            }
+        }
+        const file = known.get(path);
+        // Deleted, or renamed away partway through an atomic save
+        if (!file || !(await stat(path).catch(() => null))?.isFile()) return;
+        await limit(() => render(file));
+    };
+
+    const onChange = (path: string) => {
+        if (!roots.some(root => root.matches(path))) return;
+
+        const entry = pending.get(path) ?? { running: Promise.resolve() };
+        pending.set(path, entry);
+        // Editors often emit several events per save
+        clearTimeout(entry.timer);
+        entry.timer = setTimeout(() => {
+            entry.running = entry.running.then(() => changed(path));
+        }, 100);
+    };
+
+    const watched = new Map<string, WatchRoot>();
+    for (const root of roots) {
+        const key = `${root.recursive}:${root.dir}`;
+        if (!watched.has(key)) watched.set(key, root);
+    }
+    const closers: (() => void)[] = [];
+    try {
+        for (const { dir, recursive } of watched.values()) {
+            closers.push(await watchDirectory(dir, recursive, onChange));
+        }
+        await (until ?? new Promise<void>(() => { }));
+    } finally {
+        for (const close of closers) close();
+        for (const { timer } of pending.values()) clearTimeout(timer);
+    }
+}
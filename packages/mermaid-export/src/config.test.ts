@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fontFaceCss, mermaidInitConfig, pageSetup, scriptJson } from './config.js';
+
+describe('mermaidInitConfig', () => {
+    it('should default to the loose security level and the default theme', () => {
+        expect(mermaidInitConfig()).toEqual({ securityLevel: 'loose', theme: 'default', startOnLoad: false });
+    });
+
+    it('should pass the Mermaid config through with the theme option taking precedence', () => {
+        const config = mermaidInitConfig({
+            theme: 'dark',
+            mermaidConfig: {
+                theme: 'base',
+                themeVariables: { primaryColor: '#0a66c2' },
+                fontFamily: 'Inter',
+                securityLevel: 'strict',
+                flowchart: { curve: 'linear' }
+            }
+        });
+
+        expect(config).toEqual({
+            theme: 'dark',
+            themeVariables: { primaryColor: '#0a66c2' },
+            fontFamily: 'Inter',
+            securityLevel: 'strict',
+            flowchart: { curve: 'linear' },
+            startOnLoad: false
+        });
+        expect(mermaidInitConfig({ mermaidConfig: { theme: 'base' } }).theme).toBe('base');
+    });
+
+    it('should reject the sandbox security level', () => {
+        expect(() => mermaidInitConfig({ mermaidConfig: { securityLevel: 'sandbox' as 'strict' } })).toThrow("securityLevel 'sandbox'");
+    });
+});
+
+describe('scriptJson', () => {
+    it('should not let values close the script element', () => {
+        expect(scriptJson({ themeCSS: '</script><script>' })).toBe('{"themeCSS":"\\u003c/script>\\u003cscript>"}');
+    });
+});
+
+describe('pageSetup', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'mermaid-config-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should do nothing without fonts or icon packs', () => {
+        expect(pageSetup()).toEqual({ head: '', setup: '' });
+    });
+
+    it('should inline local fonts and keep URLs', () => {
+        writeFileSync(join(dir, 'brand.woff2'), 'font');
+
+        const css = fontFaceCss([
+            { family: 'Brand Sans', src: 'brand.woff2', weight: 700 },
+            { family: 'Inter', src: 'https://fonts.example/inter.woff2', style: 'italic' }
+        ], dir);
+
+        expect(css).toContain('font-family: "Brand Sans";');
+        expect(css).toContain(`src: url("data:font/woff2;base64,${Buffer.from('font').toString('base64')}");`);
+        expect(css).toContain('font-weight: 700;');
+        expect(css).toContain('src: url("https://fonts.example/inter.woff2");');
+        expect(css).toContain('font-style: italic;');
+        expect(() => fontFaceCss([{ family: 'X', src: 'x.svg' }], dir)).toThrow('Unsupported font file x.svg');
+    });
+
+    it('should reject weights and styles that are not valid CSS', () => {
+        const font = { family: 'Brand', src: 'https://fonts.example/brand.woff2' };
+
+        expect(fontFaceCss([{ ...font, weight: 'bold' }, { ...font, weight: '350' }, { ...font, weight: 1000 }]))
+            .toMatch(/font-weight: bold;[\s\S]*font-weight: 350;[\s\S]*font-weight: 1000;/);
+        for (const weight of [0, 1001, 'heavy', '400; } body { display: none']) {
+            expect(() => fontFaceCss([{ ...font, weight }])).toThrow('Invalid weight for font Brand');
+        }
+        expect(() => fontFaceCss([{ ...font, style: 'italic; color: red' as 'italic' }])).toThrow('Invalid style for font Brand');
+        expect(() => pageSetup({ fonts: [{ ...font, weight: 'heavy' }] })).toThrow('Invalid weight for font Brand');
+    });
+
+    it('should load fonts and register icon packs before rendering', () => {
+        writeFileSync(join(dir, 'brand.woff'), 'font');
+        writeFileSync(join(dir, 'icons.json'), JSON.stringify({ prefix: 'brand', icons: { logo: { body: '<path/>' } } }));
+
+        const { head, setup } = pageSetup({
+            fonts: [{ family: 'Brand', src: 'brand.woff' }],
+            iconPacks: [
+                { name: 'brand', icons: 'icons.json' },
+                { name: 'logos', icons: 'https://unpkg.com/@iconify-json/logos/icons.json' }
+            ]
+        }, dir);
+
+        expect(head).toMatch(/^<style>\n@font-face/);
+        expect(setup).toContain('document.fonts.load(face)');
+        expect(setup).toContain('normal normal 16px \\"Brand\\"');
+        expect(setup).toContain('mermaid.registerIconPacks(');
+        expect(setup).toContain('"icons":{"prefix":"brand","icons":{"logo":{"body":"\\u003cpath/>"}}}');
+        expect(setup).toContain('"url":"https://unpkg.com/@iconify-json/logos/icons.json"');
+    });
+});
@@ -0,0 +1,149 @@
+import { readFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
+import type { ExportOptions, FontOptions, IconPackOptions, MermaidConfig, RenderOptions } from './types.js';
+
+/** Font MIME types by file extension */
+export const FONT_TYPES: Record<string, string> = {
+    '.woff2': 'font/woff2',
+    '.woff': 'font/woff',
+    '.ttf': 'font/ttf',
+    '.otf': 'font/otf',
+};
+
+/** Keywords allowed for `font-style` in @font-face */
+const FONT_STYLES = ['normal', 'italic', 'oblique'];
+
+/** Sources used as-is rather than read from disk */
+const URL_PATTERN = /^(https?|data|file):/i;
+
+/**
+ * Code and markup that prepare a page before it renders diagrams
+ */
+export interface PageSetup {
+    /** Markup for the page's <head> */
+    head: string;
+    /** Browser code awaited before the first render */
+    setup: string;
+}
+
+/**
+ * Serialize a value as JSON that is safe to embed in a <script> element
+ */
+export function scriptJson(value: unknown): string {
+    return JSON.stringify(value)
+        .replace(/</g, '\\u003c')
+        .replace(/\u2028/g, '\\u2028')
+        .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Build the config passed to `mermaid.initialize`: `mermaidConfig` over the
+ * defaults, with the `theme` option taking precedence. `%%{init}%%`
+ * directives in a diagram are applied on top of this by Mermaid itself.
+ */
+export function mermaidInitConfig(options: Pick<ExportOptions, 'theme' | 'mermaidConfig'> = {}): MermaidConfig {
+    const { theme, mermaidConfig = {} } = options;
+    if ((mermaidConfig.securityLevel as string) === 'sandbox') {
+        throw new Error("securityLevel 'sandbox' renders diagrams in an iframe and can't be exported");
+    }
+
+    return {
+        securityLevel: 'loose',
+        ...mermaidConfig,
+        theme: theme ?? mermaidConfig.theme ?? 'default',
+        startOnLoad: false,
+    };
+}
+
+/**
+ * A font's src as a URL, inlining local files as data URLs
+ */
+function fontUrl(font: FontOptions, cwd: string): string {
+    if (URL_PATTERN.test(font.src)) {
+        return font.src;
+    }
+    const type = FONT_TYPES[extname(font.src).toLowerCase()];
+    if (!type) {
+        throw new Error(`Unsupported font file ${font.src}. Supported: .woff2, .woff, .ttf, .otf`);
+    }
+    return `data:${type};base64,${readFileSync(resolve(cwd, font.src)).toString('base64')}`;
+}
+
+/**
+ * A font's weight and style, checked so they can be written into CSS
+ */
+function fontDescriptors(font: FontOptions): { weight: string; style: string } {
+    const weight = String(font.weight ?? 'normal');
+    const number = Number(weight);
+    if (weight !== 'normal' && weight !== 'bold' && !(/^\d+(\.\d+)?$/.test(weight) && number >= 1 && number <= 1000)) {
+        throw new Error(`Invalid weight for font ${font.family}: ${JSON.stringify(font.weight)}. Use normal, bold or a number from 1 to 1000`);
+    }
+    const style: string = font.style ?? 'normal';
+    if (!FONT_STYLES.includes(style)) {
+        throw new Error(`Invalid style for font ${font.family}: ${JSON.stringify(font.style)}. Use one of: ${FONT_STYLES.join(', ')}`);
+    }
+    return { weight, style };
+}
+
+/**
+ * @font-face rules for the given fonts
+ */
+export function fontFaceCss(fonts: FontOptions[], cwd = process.cwd()): string {
+    return fonts.map(font => {
+        const { weight, style } = fontDescriptors(font);
+        return [
+            '@font-face {',
+            `    font-family: ${JSON.stringify(font.family)};`,
+            `    src: url(${JSON.stringify(fontUrl(font, cwd))});`,
+            `    font-weight: ${weight};`,
+            `    font-style: ${style};`,
+            '}',
+        ].join('\n');
+    }).join('\n');
+}
+
+/**
+ * Icon packs as data for the page: file paths are read here, URLs are
+ * fetched by the page, and objects are passed through
+ */
+function iconPackSources(packs: IconPackOptions[], cwd: string): Array<{ name: string; icons?: object; url?: string }> {
+    return packs.map(({ name, icons }) => {
+        if (typeof icons !== 'string') {
+            return { name, icons };
+        }
+        if (URL_PATTERN.test(icons)) {
+            return { name, url: icons };
+        }
+        return { name, icons: JSON.parse(readFileSync(resolve(cwd, icons), 'utf-8')) as object };
+    });
+}
+
+/**
+ * Page markup and setup code for the fonts and icon packs in `options`
+ */
+export function pageSetup(options: Pick<RenderOptions, 'fonts' | 'iconPacks'> = {}, cwd = process.cwd()): PageSetup {
+    const { fonts = [], iconPacks = [] } = options;
+    const steps: string[] = [];
+
+    if (fonts.length > 0) {
+        // Mermaid measures text while laying out, so fonts must be loaded first
+        const faces = fonts.map(font => {
+            const { weight, style } = fontDescriptors(font);
+            return `${style} ${weight} 16px ${JSON.stringify(font.family)}`;
+        });
+        steps.push(`await Promise.all(${scriptJson(faces)}.map(face => document.fonts.load(face)));`);
+    }
+    if (iconPacks.length > 0) {
+        steps.push(`if (typeof mermaid.registerIconPacks !== 'function') {
+                throw new Error('Icon packs need Mermaid 11.1 or later');
+            }
+            mermaid.registerIconPacks(${scriptJson(iconPackSources(iconPacks, cwd))}.map(pack => pack.url
+                ? { name: pack.name, loader: () => fetch(pack.url).then(response => response.json()) }
+                : { name: pack.name, icons: pack.icons }));`);
+    }
+
+    return {
+        head: fonts.length > 0 ? `<style>\n${fontFaceCss(fonts, cwd)}\n</style>` : '',
+        setup: steps.join('\n            '),
+    };
+}
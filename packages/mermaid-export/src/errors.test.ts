@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { createSyntaxError, MermaidSyntaxError, toMermaidError } from './errors.js';
+
+const JISON_MESSAGE = "Parse error on line 2:\n...graph TD    A --> \n---------------------^\nExpecting 'AMP', 'ALPHA', 'NODE_STRING', got 'EOF'";
+
+describe('createSyntaxError', () => {
+    it('should use the position and tokens reported by the parser', () => {
+        const error = createSyntaxError({
+            message: JISON_MESSAGE,
+            line: 2,
+            column: 10,
+            expected: ["'AMP'", "'ALPHA'"],
+            diagramType: 'flowchart-v2'
+        }, 'Invalid Mermaid diagram');
+
+        expect(error).toBeInstanceOf(MermaidSyntaxError);
+        expect(error).toBeInstanceOf(Error);
+        expect(error.name).toBe('MermaidSyntaxError');
+        expect(error.message).toBe(`Invalid Mermaid diagram: ${JISON_MESSAGE}`);
+        expect(error).toMatchObject({ line: 2, column: 10, expected: ['AMP', 'ALPHA'], diagramType: 'flowchart-v2' });
+    });
+
+    it('should read the line and expected tokens from Jison messages', () => {
+        const error = createSyntaxError({ message: JISON_MESSAGE }, 'Invalid Mermaid diagram');
+
+        expect(error).toMatchObject({ line: 2, column: undefined, expected: ['AMP', 'ALPHA', 'NODE_STRING'] });
+    });
+
+    it('should read the position from Langium messages', () => {
+        const error = createSyntaxError({
+            message: "Parsing failed: Parse error on line 3, column 5: Expecting token of type 'EOF' but found `x`.",
+            diagramType: 'pie'
+        }, 'Invalid Mermaid diagram');
+
+        expect(error).toMatchObject({ line: 3, column: 5, expected: ['EOF'], diagramType: 'pie' });
+    });
+
+    it('should leave the position empty when none is known', () => {
+        const error = createSyntaxError({ message: 'No diagram type detected matching given configuration for text: hello' }, 'x');
+
+        expect(error).toMatchObject({ line: undefined, column: undefined, expected: [], diagramType: undefined });
+    });
+});
+
+describe('toMermaidError', () => {
+    it('should return syntax errors for parser failures only', () => {
+        expect(toMermaidError({ message: JISON_MESSAGE }, 'Mermaid rendering failed')).toBeInstanceOf(MermaidSyntaxError);
+        expect(toMermaidError({ message: 'No diagram type detected matching given configuration' }, 'x')).toBeInstanceOf(MermaidSyntaxError);
+
+        const other = toMermaidError({ message: 'Cannot read properties of undefined' }, 'Mermaid rendering failed');
+
+        expect(other).not.toBeInstanceOf(MermaidSyntaxError);
+        expect(other.message).toBe('Mermaid rendering failed: Cannot read properties of undefined');
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * What the browser reports about a failed parse or render
+ */
+export interface MermaidErrorDetails {
+    message: string;
+    /** 1-based line, when the parser reported one */
+    line?: number;
+    /** 1-based column, when the parser reported one */
+    column?: number;
+    /** Tokens the parser would have accepted, when it reported them */
+    expected?: string[];
+    /** Diagram type Mermaid detected, if any */
+    diagramType?: string;
+}
+
+/**
+ * A diagram that Mermaid's parser rejected. Carries the position of the
+ * problem so editors can show it inline.
+ */
+export class MermaidSyntaxError extends Error {
+    /** 1-based line within the diagram */
+    readonly line?: number;
+    /** 1-based column within the line */
+    readonly column?: number;
+    /** Tokens the parser expected at that position (may be empty) */
+    readonly expected: string[];
+    /** Diagram type detected from the first line, e.g. 'flowchart-v2' or 'sequence' */
+    readonly diagramType?: string;
+
+    constructor(message: string, details: Omit<MermaidErrorDetails, 'message'> = {}) {
+        super(message);
+        this.name = 'MermaidSyntaxError';
+        this.line = details.line;
+        this.column = details.column;
+        this.expected = details.expected ?? [];
+        this.diagramType = details.diagramType;
+    }
+}
+
+/** Messages from Mermaid's Jison and Langium parsers and its type detection */
+const SYNTAX_ERROR = /parse error|lexer error|parsing failed|syntax error|no diagram type detected/i;
+
+/** Removes the quotes Jison puts around token names */
+function unquote(token: string): string {
+    return token.trim().replace(/^(['"`])(.*)\1$/, '$2');
+}
+
+/**
+ * Expected tokens from the parser's details, or from its message when the
+ * details are missing ("Expecting 'SEMI', 'NEWLINE', got ..." or
+ * "Expecting token of type 'EOF' but found ...")
+ */
+function expectedTokens(details: MermaidErrorDetails): string[] {
+    if (details.expected) {
+        return details.expected.map(unquote);
+    }
+    const jison = /Expecting (.+?), got /.exec(details.message);
+    if (jison) {
+        return jison[1].split(',').map(unquote);
+    }
+    return Array.from(details.message.matchAll(/Expecting token of type '([^']+)'/g), match => match[1]);
+}
+
+/**
+ * Build a MermaidSyntaxError, filling in the position from the message when
+ * the parser didn't report it separately
+ */
+export function createSyntaxError(details: MermaidErrorDetails, context: string): MermaidSyntaxError {
+    const line = details.line ?? Number(/\bline (\d+)/i.exec(details.message)?.[1] ?? NaN);
+    const column = details.column ?? Number(/\bcolumn (\d+)/i.exec(details.message)?.[1] ?? NaN);
+
+    return new MermaidSyntaxError(`${context}: ${details.message}`, {
+        line: Number.isNaN(line) ? undefined : line,
+        column: Number.isNaN(column) ? undefined : column,
+        expected: expectedTokens(details),
+        diagramType: details.diagramType,
+    });
+}
+
+/**
+ * Turn browser error details into a MermaidSyntaxError when the parser
+ * rejected the diagram, or a plain Error for any other failure
+ */
+export function toMermaidError(details: MermaidErrorDetails, context: string): Error {
+    if (details.line !== undefined || SYNTAX_ERROR.test(details.message)) {
+        return createSyntaxError(details, context);
+    }
+    return new Error(`${context}: ${details.message}`);
+}
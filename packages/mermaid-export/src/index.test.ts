@@ -1,16 +1,21 @@
-import { describe, it, expect, afterAll } from 'vitest';
+import { describe, it, expect, afterAll, vi } from 'vitest';
 import {
     exportDiagram,
     exportToSvg,
     exportToPng,
     exportToJpeg,
     exportToWebp,
+    exportToPdf,
     exportToFile,
+    exportMany,
+    validateDiagram,
+    MermaidSyntaxError,
     closeBrowser
 } from './index.js';
 import { existsSync, unlinkSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
+import { fileURLToPath } from 'node:url';
 
 // Sample diagrams for testing
 const FLOWCHART = `
@@ -39,9 +44,13 @@ pie title Favorite Languages
 // Test output directory
 const TEST_OUTPUT_DIR = join(tmpdir(), 'mermaid-export-tests');
 
+// Renders use the mermaid dev dependency, which is installed in this package rather than the workspace root
+const PACKAGE_DIR = join(fileURLToPath(import.meta.url), '..', '..');
+
 describe('mermaid-export', () => {
     // Ensure test output directory exists
     beforeAll(() => {
+        vi.spyOn(process, 'cwd').mockReturnValue(PACKAGE_DIR);
         if (!existsSync(TEST_OUTPUT_DIR)) {
             mkdirSync(TEST_OUTPUT_DIR, { recursive: true });
         }
@@ -49,6 +58,7 @@ describe('mermaid-export', () => {
 
     // Clean up browser after all tests
     afterAll(async () => {
+        vi.restoreAllMocks();
         await closeBrowser();
     });
 
@@ -74,6 +84,43 @@ describe('mermaid-export', () => {
             expect(svg).toBeTypeOf('string');
             expect(svg).toContain('<svg');
         }, 60000);
+
+        it('should post-process the SVG for standalone use', async () => {
+            const svg = await exportToSvg(FLOWCHART, {
+                backgroundColor: '#fafafa',
+                prefix: 'first-',
+                sanitize: true,
+                minify: true,
+                xmlDeclaration: true
+            });
+
+            expect(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?><svg')).toBe(true);
+            expect(svg).toMatch(/<svg[^>]*><rect [^>]*fill="#fafafa"/);
+            expect(svg).toContain('id="first-mermaid-');
+            expect(svg).not.toMatch(/\sid="(?!first-)/);
+            expect(svg).not.toContain('<!--');
+        }, 60000);
+    });
+
+    describe('Mermaid config', () => {
+        it('should apply theme variables and CSS from mermaidConfig', async () => {
+            const svg = await exportToSvg(FLOWCHART, {
+                mermaidConfig: {
+                    theme: 'base',
+                    themeVariables: { primaryColor: '#123456' },
+                    themeCSS: '.node rect { stroke-width: 7px; }'
+                }
+            });
+
+            expect(svg).toContain('#123456');
+            expect(svg).toContain('stroke-width: 7px');
+        }, 60000);
+
+        it('should honor %%{init}%% directives in the diagram', async () => {
+            const svg = await exportToSvg(`%%{init: {'theme': 'base', 'themeVariables': {'primaryColor': '#654321'}}}%%${FLOWCHART}`);
+
+            expect(svg).toContain('#654321');
+        }, 60000);
     });
 
     describe('exportToPng', () => {
@@ -137,6 +184,41 @@ describe('mermaid-export', () => {
         }, 60000);
     });
 
+    describe('exportToPdf', () => {
+        it('should export to PDF buffer', async () => {
+            const pdf = await exportToPdf(FLOWCHART);
+
+            expect(pdf).toBeInstanceOf(Buffer);
+            expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+        }, 60000);
+
+        it('should put one diagram per page', async () => {
+            const pdf = await exportToPdf([FLOWCHART, SEQUENCE], { pageSize: 'A4', orientation: 'landscape' });
+
+            expect(pdf.toString('latin1')).toMatch(/\/Count 2\b/);
+        }, 60000);
+    });
+
+    describe('exportMany', () => {
+        it('should export every diagram and report progress', async () => {
+            const onProgress = vi.fn();
+
+            const results = await exportMany([FLOWCHART, SEQUENCE, FLOWCHART], { concurrency: 2, onProgress });
+
+            expect(results.map(result => result.ok)).toEqual([true, true, true]);
+            expect(results[1]).toMatchObject({ index: 1, output: expect.stringContaining('<svg') });
+            expect(onProgress).toHaveBeenCalledTimes(3);
+            expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ completed: 3, failed: 0, total: 3 }));
+        }, 60000);
+
+        it('should return failures without failing the batch', async () => {
+            const results = await exportMany([FLOWCHART, 'not a diagram xyz123'], { format: 'png' });
+
+            expect(results[0]).toMatchObject({ ok: true, output: expect.any(Buffer) });
+            expect(results[1]).toMatchObject({ ok: false, error: expect.any(Error) });
+        }, 60000);
+    });
+
     describe('exportToFile', () => {
         it('should export SVG to file', async () => {
             const filePath = join(TEST_OUTPUT_DIR, 'test-diagram.svg');
@@ -160,6 +242,17 @@ describe('mermaid-export', () => {
             unlinkSync(filePath);
         }, 60000);
 
+        it('should export PDF to file', async () => {
+            const filePath = join(TEST_OUTPUT_DIR, 'test-diagram.pdf');
+
+            await exportToFile(FLOWCHART, filePath, { pageSize: 'Letter' });
+
+            expect(existsSync(filePath)).toBe(true);
+
+            // Cleanup
+            unlinkSync(filePath);
+        }, 60000);
+
         it('should throw for unsupported extension', async () => {
             await expect(
                 exportToFile(FLOWCHART, 'test.gif')
@@ -173,6 +266,36 @@ describe('mermaid-export', () => {
 
             await expect(exportToSvg(invalidDiagram)).rejects.toThrow();
         }, 60000);
+
+        it('should throw MermaidSyntaxError with the position of parse errors', async () => {
+            const error = await exportToSvg('graph TD\n    A --> ').catch(err => err);
+
+            expect(error).toBeInstanceOf(MermaidSyntaxError);
+            expect(error.line).toBe(2);
+            expect(error.expected.length).toBeGreaterThan(0);
+            expect(error.diagramType).toContain('flowchart');
+        }, 60000);
+
+        it('should time out after the configured timeout', async () => {
+            await expect(exportToSvg(FLOWCHART, { timeout: 1 })).rejects.toThrow('timed out after 1ms');
+        }, 60000);
+    });
+
+    describe('validateDiagram', () => {
+        it('should accept valid diagrams and detect their type', async () => {
+            expect(await validateDiagram(SEQUENCE)).toEqual({ valid: true, diagramType: 'sequence' });
+        }, 60000);
+
+        it('should report syntax errors without rendering', async () => {
+            const result = await validateDiagram('graph TD\n    A --> ');
+
+            expect(result.valid).toBe(false);
+            if (!result.valid) {
+                expect(result.error).toBeInstanceOf(MermaidSyntaxError);
+                expect(result.error.line).toBe(2);
+                expect(result.diagramType).toContain('flowchart');
+            }
+        }, 60000);
     });
 });
 
@@ -1,17 +1,60 @@
 import { writeFile } from 'node:fs/promises';
 import { extname } from 'node:path';
-import { renderToSvg, renderToBuffer, closeBrowser } from './renderer.js';
-import type { ExportOptions, RasterExportOptions, SvgExportOptions } from './types.js';
+import { renderToSvg, renderToBuffer, renderToPdf, parseDiagram, closeBrowser } from './renderer.js';
+import type {
+    BackendOptions,
+    ExportOptions,
+    FontOptions,
+    IconPackOptions,
+    LaunchOptions,
+    MermaidConfig,
+    PdfExportOptions,
+    PdfLength,
+    PdfPageOptions,
+    RasterExportOptions,
+    RenderBackend,
+    RenderOptions,
+    RenderPage,
+    ScreenshotOptions,
+    SvgExportOptions,
+    SvgOutputOptions,
+    ValidationResult,
+    Viewport
+} from './types.js';
 
-export type { ExportOptions, RasterExportOptions, SvgExportOptions };
+export type {
+    BackendOptions,
+    ExportOptions,
+    FontOptions,
+    IconPackOptions,
+    LaunchOptions,
+    MermaidConfig,
+    PdfExportOptions,
+    PdfLength,
+    PdfPageOptions,
+    RasterExportOptions,
+    RenderBackend,
+    RenderOptions,
+    RenderPage,
+    ScreenshotOptions,
+    SvgExportOptions,
+    SvgOutputOptions,
+    ValidationResult,
+    Viewport
+};
 export { closeBrowser };
+export { MermaidSyntaxError } from './errors.js';
+export { exportMany } from './batch.js';
+export type { BatchExportOptions, BatchProgress, BatchResult } from './batch.js';
+export { findMermaidBlocks, renderMarkdown, renderMarkdownFile } from './markdown.js';
+export type { MermaidBlock, MarkdownRenderOptions, MarkdownRenderResult, RenderedDiagram } from './markdown.js';
 
 /**
  * Export a Mermaid diagram to the specified format
  * 
  * @param diagram - The Mermaid diagram definition string
  * @param options - Export options
- * @returns Buffer for raster formats (png/jpeg/webp) or string for SVG
+ * @returns Buffer for raster formats (png/jpeg/webp) and PDF, or string for SVG
  * 
  * @example
  * ```typescript
@@ -40,6 +83,9 @@ export async function exportDiagram(
     if (format === 'svg') {
         return exportToSvg(diagram, rest);
     }
+    if (format === 'pdf') {
+        return exportToPdf(diagram, rest);
+    }
 
     return exportToImage(diagram, format, rest);
 }
@@ -126,6 +172,35 @@ export async function exportToWebp(
     return renderToBuffer(diagram, 'webp', options);
 }
 
+/**
+ * Export Mermaid diagrams to a vector PDF buffer. Pass an array to put one
+ * diagram per page in a single PDF.
+ * 
+ * @param diagrams - One Mermaid diagram definition, or several
+ * @param options - PDF export options
+ * @returns PDF buffer
+ * 
+ * @example
+ * ```typescript
+ * import { exportToPdf } from 'mermaid-export';
+ * import { writeFileSync } from 'fs';
+ * 
+ * const pdf = await exportToPdf([contextDiagram, containerDiagram], {
+ *   pageSize: 'A4',
+ *   orientation: 'landscape',
+ *   margin: '15mm'
+ * });
+ * 
+ * writeFileSync('architecture.pdf', pdf);
+ * ```
+ */
+export async function exportToPdf(
+    diagrams: string | string[],
+    options: PdfExportOptions = {}
+): Promise<Buffer> {
+    return renderToPdf(Array.isArray(diagrams) ? diagrams : [diagrams], options);
+}
+
 /**
  * Export a Mermaid diagram to an image buffer (PNG, JPEG, or WebP)
  * 
@@ -142,6 +217,32 @@ export async function exportToImage(
     return renderToBuffer(diagram, format, options);
 }
 
+/**
+ * Check a Mermaid diagram for syntax errors without rendering it. Only
+ * Mermaid's parser runs, on a browser page that is reused across calls.
+ * 
+ * @param diagram - The Mermaid diagram definition string
+ * @param options - Mermaid source and timeout options
+ * @returns The detected diagram type, and a MermaidSyntaxError if the diagram is invalid
+ * 
+ * @example
+ * ```typescript
+ * import { validateDiagram } from 'mermaid-export';
+ * 
+ * const result = await validateDiagram('graph TD\n  A --> ');
+ * if (!result.valid) {
+ *   const { line, column, expected } = result.error;
+ *   console.log(`${line}:${column} expected one of ${expected.join(', ')}`);
+ * }
+ * ```
+ */
+export async function validateDiagram(
+    diagram: string,
+    options: RenderOptions = {}
+): Promise<ValidationResult> {
+    return parseDiagram(diagram, options);
+}
+
 /**
  * Export a Mermaid diagram directly to a file
  * 
@@ -191,7 +292,9 @@ function getFormatFromExtension(ext: string): ExportOptions['format'] {
             return 'jpeg';
         case 'webp':
             return 'webp';
+        case 'pdf':
+            return 'pdf';
         default:
-            throw new Error(`Unsupported file extension: .${ext}. Supported: .svg, .png, .jpg, .jpeg, .webp`);
+            throw new Error(`Unsupported file extension: .${ext}. Supported: .svg, .png, .jpg, .jpeg, .webp, .pdf`);
     }
 }
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import { createRequire } from 'node:module';
+import { launchJsdom } from './jsdom.js';
+import { closeBrowser, exportToSvg } from './index.js';
+import type { RenderPage } from './types.js';
+
+describe('jsdom backend', () => {
+    let page: RenderPage;
+
+    beforeEach(async () => {
+        const backend = await launchJsdom();
+        page = await backend.newPage();
+    });
+
+    afterEach(async () => {
+        await page.close();
+    });
+
+    it('should run classic and module scripts, keeping module declarations private', async () => {
+        await page.setContent(`<body>
+            <script>window.loaded = ['classic'];</script>
+            <script type="module">const moduleOnly = 'module'; window.loaded.push(moduleOnly);</script>
+        </body>`, 1000);
+
+        expect(await page.evaluate(() => window.loaded)).toEqual(['classic', 'module']);
+        expect(await page.evaluate(prefix => window.loaded!.map(name => prefix + name), '-')).toEqual(['-classic', '-module']);
+        expect(await page.evaluate(() => 'moduleOnly' in window)).toBe(false);
+    });
+
+    it('should reject module scripts that import', async () => {
+        await expect(page.setContent('<script type="module">import mermaid from "https://cdn.example/mermaid.mjs";</script>', 1000))
+            .rejects.toThrow("can't import Mermaid from a URL");
+    });
+
+    it('should reject pages whose scripts throw', async () => {
+        await expect(page.setContent('<script>throw new Error("boom")</script>', 1000)).rejects.toThrow('boom');
+    });
+
+    it('should estimate the bounding boxes of shapes, text and groups', async () => {
+        await page.setContent(`<svg>
+            <g id="group" transform="translate(10, 20)">
+                <rect x="5" y="5" width="40" height="30"/>
+                <path d="M0,0 L100,0 l0,50 H-10 Z"/>
+                <text x="50" y="60" text-anchor="middle" font-size="10">abcd</text>
+                <defs><rect width="1000" height="1000"/></defs>
+            </g>
+        </svg>`, 1000);
+
+        const boxes = await page.evaluate(() => ['rect', 'path', 'text', '#group'].map(selector => {
+            const { x, y, width, height } = (document.querySelector(selector) as SVGGraphicsElement).getBBox();
+            return { x, y, width, height };
+        }));
+
+        expect(boxes[0]).toEqual({ x: 5, y: 5, width: 40, height: 30 });
+        expect(boxes[1]).toEqual({ x: -10, y: 0, width: 110, height: 50 });
+        expect(boxes[2]).toEqual({ x: 38, y: 52, width: 24, height: 12 });
+        expect(boxes[3]).toEqual({ x: -10, y: 0, width: 110, height: 64 });
+    });
+
+    it('should estimate the size of HTML labels, wrapping at their max-width', async () => {
+        await page.setContent(`<div style="font-size: 10px">
+            <span id="short">Start</span>
+            <span id="lines">one<br>three</span>
+            <div id="wrapped" style="max-width: 60px">a label that wraps</div>
+        </div>`, 1000);
+
+        const sizes = await page.evaluate(() => ['#short', '#lines', '#wrapped'].map(selector => {
+            const { width, height } = document.querySelector(selector)!.getBoundingClientRect();
+            return [width, height];
+        }));
+
+        expect(sizes).toEqual([[30, 15], [30, 30], [60, 30]]);
+    });
+
+    it('should time out waiting for a condition that never holds', async () => {
+        await page.setContent('<body></body>', 1000);
+
+        await expect(page.waitForFunction(() => false, 30)).rejects.toMatchObject({ name: 'TimeoutError' });
+        await expect(page.waitForFunction(() => document.body !== null, 30)).resolves.toBeUndefined();
+    });
+
+    it('should only render SVG', async () => {
+        await expect(page.pdf()).rejects.toThrow('only renders SVG');
+        await expect(page.screenshot({ type: 'png', clip: { x: 0, y: 0, width: 1, height: 1 }, omitBackground: false }))
+            .rejects.toThrow('only renders SVG');
+    });
+});
+
+describe('jsdom rendering', () => {
+    // The installed mermaid dev dependency, found from this package rather than the working directory
+    const mermaidPath = createRequire(import.meta.url).resolve('mermaid/dist/mermaid.min.js');
+
+    afterAll(async () => {
+        await closeBrowser();
+    });
+
+    it('should render a flowchart', async () => {
+        const svg = await exportToSvg('graph TD\n    A[Start] --> B{Ready?}\n    B -->|Yes| C[Done]', { backend: 'jsdom', mermaidPath });
+
+        expect(svg).toMatch(/^<svg[\s\S]*<\/svg>$/);
+        expect(svg).toContain('Start');
+        expect(svg).toContain('Ready?');
+        expect(svg).toContain('flowchart-C');
+    }, 30000);
+
+    it('should render a sequence diagram', async () => {
+        const svg = await exportToSvg('sequenceDiagram\n    Alice->>Bob: Hello\n    Bob-->>Alice: Hi', { backend: 'jsdom', mermaidPath });
+
+        expect(svg).toMatch(/^<svg[\s\S]*<\/svg>$/);
+        expect(svg).toContain('Alice');
+        expect(svg).toContain('Hello');
+        expect(svg).toMatch(/<line[^>]*messageLine/);
+    }, 30000);
+});
+
+declare global {
+    interface Window {
+        loaded?: string[];
+    }
+}
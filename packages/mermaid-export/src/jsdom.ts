@@ -0,0 +1,388 @@
+import type { DOMWindow, JSDOM } from 'jsdom';
+import { missingPackage } from './backend.js';
+import type { RenderBackend, RenderPage } from './types.js';
+
+/** Average glyph width relative to the font size, for estimating text width */
+const CHAR_WIDTH = 0.6;
+
+/** Line heights relative to the font size; Mermaid's HTML labels use 1.5 */
+const SVG_LINE_HEIGHT = 1.2;
+const HTML_LINE_HEIGHT = 1.5;
+
+const DEFAULT_FONT_SIZE = 16;
+
+/** Milliseconds between checks in waitForFunction */
+const POLL_INTERVAL = 10;
+
+/** Elements that take up no space in their parent's bounding box */
+const NON_RENDERED = new Set([
+    'clipPath', 'defs', 'desc', 'filter', 'linearGradient', 'marker', 'mask',
+    'metadata', 'pattern', 'radialGradient', 'script', 'style', 'symbol', 'title',
+]);
+
+/** Number of parameters each path command takes */
+const PATH_PARAMETERS: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+
+interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+type Point = [number, number];
+
+const EMPTY_BOX: Box = { x: 0, y: 0, width: 0, height: 0 };
+
+function numbers(value: string | null): number[] {
+    return (value?.match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+}
+
+function attribute(element: Element, name: string): number {
+    return numbers(element.getAttribute(name))[0] ?? 0;
+}
+
+/** A font size in pixels from a `16px` or `16` value, or null for other units */
+function pixels(value: string | null | undefined): number | null {
+    const match = /^\s*(\d+(?:\.\d+)?)(px)?\s*$/.exec(value ?? '');
+    return match ? Number(match[1]) : null;
+}
+
+function fontSize(element: Element): number {
+    for (let node: Element | null = element; node; node = node.parentElement) {
+        const size = pixels((node as HTMLElement).style?.fontSize) ?? pixels(node.getAttribute('font-size'));
+        if (size) {
+            return size;
+        }
+    }
+    return DEFAULT_FONT_SIZE;
+}
+
+function boxOf(points: Point[]): Box {
+    if (points.length === 0) {
+        return EMPTY_BOX;
+    }
+    const xs = points.map(point => point[0]);
+    const ys = points.map(point => point[1]);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function corners(box: Box): Point[] {
+    const { x, y, width, height } = box;
+    return [[x, y], [x + width, y], [x, y + height], [x + width, y + height]];
+}
+
+/**
+ * The box around `box` after an SVG transform list. Only translate, scale
+ * and matrix are applied; rotations and skews are ignored.
+ */
+function transformBox(box: Box, transform: string | null): Box {
+    if (!transform || box === EMPTY_BOX) {
+        return box;
+    }
+    let points = corners(box);
+    // The rightmost transform applies first
+    for (const [, name, args] of Array.from(transform.matchAll(/(\w+)\s*\(([^)]*)\)/g)).reverse()) {
+        const [a = 0, b, c = 0, d = 0, e = 0, f = 0] = numbers(args);
+        if (name === 'translate') {
+            points = points.map(([x, y]) => [x + a, y + (b ?? 0)]);
+        } else if (name === 'scale') {
+            points = points.map(([x, y]) => [x * a, y * (b ?? a)]);
+        } else if (name === 'matrix') {
+            points = points.map(([x, y]) => [a * x + c * y + e, (b ?? 0) * x + d * y + f]);
+        }
+    }
+    return boxOf(points);
+}
+
+/**
+ * The end and control points of a path, which contain its curves
+ */
+function pathPoints(d: string): Point[] {
+    const points: Point[] = [];
+    let x = 0;
+    let y = 0;
+    let start: Point = [0, 0];
+
+    for (const [, command, args] of d.matchAll(/([a-zA-Z])([^a-zA-Z]*)/g)) {
+        const type = command.toLowerCase();
+        const count = PATH_PARAMETERS[type];
+        if (count === undefined) {
+            continue;
+        }
+        if (count === 0) {
+            [x, y] = start;
+            continue;
+        }
+        const values = numbers(args);
+        for (let i = 0; i + count <= values.length; i += count) {
+            const group = values.slice(i, i + count);
+            const [originX, originY] = command === type ? [x, y] : [0, 0];
+            if (type === 'h') {
+                x = originX + group[0];
+            } else if (type === 'v') {
+                y = originY + group[0];
+            } else if (type === 'a') {
+                x = originX + group[5];
+                y = originY + group[6];
+            } else {
+                for (let j = 0; j < count; j += 2) {
+                    points.push([originX + group[j], originY + group[j + 1]]);
+                }
+                x = originX + group[count - 2];
+                y = originY + group[count - 1];
+            }
+            points.push([x, y]);
+            if (type === 'm' && i === 0) {
+                start = [x, y];
+            }
+        }
+    }
+    return points;
+}
+
+/**
+ * The lines of an SVG text element: its tspans that start a new line, or its text
+ */
+function textLines(element: Element): string[] {
+    const lines = Array.from(element.children)
+        .filter(child => child.localName === 'tspan' && (child.hasAttribute('x') || child.hasAttribute('dy')))
+        .map(child => child.textContent ?? '');
+    return lines.length > 0 ? lines : [element.textContent ?? ''];
+}
+
+function textWidth(text: string, size: number): number {
+    return text.trim().length * size * CHAR_WIDTH;
+}
+
+function textBox(element: Element): Box {
+    const size = fontSize(element);
+    const lines = textLines(element);
+    const width = Math.max(...lines.map(line => textWidth(line, size)));
+    const height = lines.length * size * SVG_LINE_HEIGHT;
+    const style = (element as SVGElement).style;
+    const anchor = element.getAttribute('text-anchor') ?? style?.getPropertyValue('text-anchor');
+    const baseline = element.getAttribute('dominant-baseline') ?? style?.getPropertyValue('dominant-baseline');
+
+    let x = attribute(element, 'x');
+    if (anchor === 'middle') {
+        x -= width / 2;
+    } else if (anchor === 'end') {
+        x -= width;
+    }
+    let y = attribute(element, 'y');
+    y -= baseline === 'middle' || baseline === 'central' ? height / 2 : size * 0.8;
+
+    return { x, y, width, height };
+}
+
+/**
+ * Estimate the bounding box a browser would give an SVG element, in its own
+ * coordinates. Shapes are measured from their attributes and text from its
+ * length, so text sizes are approximate.
+ */
+function svgBox(element: Element): Box {
+    switch (element.localName) {
+        case 'rect':
+        case 'image':
+        case 'foreignObject':
+        case 'use':
+            return {
+                x: attribute(element, 'x'),
+                y: attribute(element, 'y'),
+                width: attribute(element, 'width'),
+                height: attribute(element, 'height'),
+            };
+        case 'circle':
+        case 'ellipse': {
+            const rx = attribute(element, element.localName === 'circle' ? 'r' : 'rx');
+            const ry = attribute(element, element.localName === 'circle' ? 'r' : 'ry');
+            return { x: attribute(element, 'cx') - rx, y: attribute(element, 'cy') - ry, width: rx * 2, height: ry * 2 };
+        }
+        case 'line':
+            return boxOf([
+                [attribute(element, 'x1'), attribute(element, 'y1')],
+                [attribute(element, 'x2'), attribute(element, 'y2')],
+            ]);
+        case 'polygon':
+        case 'polyline': {
+            const values = numbers(element.getAttribute('points'));
+            const points: Point[] = [];
+            for (let i = 0; i + 1 < values.length; i += 2) {
+                points.push([values[i], values[i + 1]]);
+            }
+            return boxOf(points);
+        }
+        case 'path':
+            return boxOf(pathPoints(element.getAttribute('d') ?? ''));
+        case 'text':
+        case 'tspan':
+        case 'textPath':
+            return textBox(element);
+        default: {
+            const boxes = Array.from(element.children)
+                .filter(child => !NON_RENDERED.has(child.localName))
+                .map(child => transformBox(svgBox(child), child.getAttribute('transform')))
+                .filter(box => box.width > 0 || box.height > 0);
+            return boxOf(boxes.flatMap(corners));
+        }
+    }
+}
+
+/**
+ * Estimate the size of an HTML element from its text, wrapping at its max-width
+ */
+function htmlBox(element: HTMLElement): Box {
+    const size = fontSize(element);
+    const maxWidth = pixels(element.style.maxWidth);
+    const lines = element.innerHTML
+        .split(/<br\s*\/?>/i)
+        .map(line => textWidth(line.replace(/<[^>]*>/g, '').replace(/&[^;\s]+;/g, '_'), size));
+
+    let width = Math.max(...lines);
+    let count = lines.length;
+    if (maxWidth && width > maxWidth) {
+        count = lines.reduce((total, line) => total + Math.max(1, Math.ceil(line / maxWidth)), 0);
+        width = maxWidth;
+    }
+    return { x: 0, y: 0, width, height: width > 0 ? count * size * HTML_LINE_HEIGHT : 0 };
+}
+
+function domRect(box: Box) {
+    return { ...box, top: box.y, left: box.x, right: box.x + box.width, bottom: box.y + box.height, toJSON: () => box };
+}
+
+/**
+ * Add what jsdom lacks for Mermaid: layout measurement, estimated from the
+ * markup, and a few Node globals
+ */
+function installPolyfills(window: DOMWindow): void {
+    Object.assign(window.SVGElement.prototype, {
+        getBBox(this: Element) {
+            return domRect(svgBox(this));
+        },
+        getComputedTextLength(this: Element) {
+            return textWidth(this.textContent ?? '', fontSize(this));
+        },
+        getBoundingClientRect(this: Element) {
+            return domRect(transformBox(svgBox(this), this.getAttribute('transform')));
+        },
+    });
+    Object.assign(window.HTMLElement.prototype, {
+        getBoundingClientRect(this: HTMLElement) {
+            return domRect(htmlBox(this));
+        },
+    });
+    Object.assign(window, { TextEncoder, TextDecoder, structuredClone, fetch });
+    // Fonts can't change the estimated sizes, so there is nothing to wait for
+    Object.defineProperty(window.document, 'fonts', {
+        value: { ready: Promise.resolve(), load: () => Promise.resolve([]), check: () => true },
+    });
+}
+
+/**
+ * Run the page's module scripts, which jsdom skips, as classic scripts.
+ * Without a module loader, Mermaid must be inlined rather than imported.
+ */
+function runModuleScripts(window: DOMWindow): void {
+    for (const module of Array.from(window.document.querySelectorAll('script[type="module"]'))) {
+        const code = module.textContent ?? '';
+        if (/^\s*import\s/m.test(code)) {
+            throw new Error("The jsdom backend can't import Mermaid from a URL; install the mermaid package or set mermaidPath");
+        }
+        const script = window.document.createElement('script');
+        // A block keeps the module's declarations out of the global scope
+        script.textContent = `{\n${code}\n}`;
+        module.replaceWith(script);
+    }
+}
+
+function jsdomPage(jsdom: typeof import('jsdom')): RenderPage {
+    let dom: JSDOM | null = null;
+    let closed = false;
+
+    const getWindow = (): DOMWindow => {
+        if (!dom || closed) {
+            throw new Error(closed ? 'Page is closed' : 'Page has no content');
+        }
+        return dom.window;
+    };
+
+    const evaluate: RenderPage['evaluate'] = async (fn, arg) => {
+        const result: unknown = await getWindow().eval(`(${fn.toString()})(${JSON.stringify(arg)})`);
+        // Return a copy, as a browser would, rather than objects from the page
+        return result === undefined ? undefined : JSON.parse(JSON.stringify(result));
+    };
+
+    return {
+        async setContent(html) {
+            const errors: Error[] = [];
+            const virtualConsole = new jsdom.VirtualConsole();
+            virtualConsole.on('jsdomError', error => {
+                if ((error as Error & { type?: string }).type === 'unhandled exception') {
+                    errors.push(error);
+                }
+            });
+
+            dom?.window.close();
+            dom = new jsdom.JSDOM(html, {
+                runScripts: 'dangerously',
+                pretendToBeVisual: true,
+                virtualConsole,
+                beforeParse: installPolyfills,
+            });
+            runModuleScripts(dom.window);
+            if (errors.length > 0) {
+                throw errors[0];
+            }
+        },
+        evaluate,
+        async waitForFunction(fn, timeout) {
+            const deadline = Date.now() + timeout;
+            while (!(await evaluate(fn))) {
+                if (Date.now() >= deadline) {
+                    const error = new Error(`Waiting failed: ${timeout}ms exceeded`);
+                    error.name = 'TimeoutError';
+                    throw error;
+                }
+                await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+            }
+        },
+        async screenshot() {
+            throw new Error('The jsdom backend only renders SVG; use the puppeteer or playwright backend for images');
+        },
+        async pdf() {
+            throw new Error('The jsdom backend only renders SVG; use the puppeteer or playwright backend for PDF');
+        },
+        async close() {
+            dom?.window.close();
+            closed = true;
+        },
+        isClosed: () => closed,
+    };
+}
+
+/**
+ * Render in Node with jsdom instead of a browser. jsdom has no layout, so
+ * sizes are estimated from the markup: good enough for SVG output of most
+ * diagrams, but text may not fit its boxes exactly.
+ */
+export async function launchJsdom(): Promise<RenderBackend> {
+    let jsdom: typeof import('jsdom');
+    try {
+        jsdom = await import('jsdom');
+    } catch (error) {
+        throw missingPackage('jsdom', error);
+    }
+
+    let connected = true;
+    return {
+        newPage: async () => jsdomPage(jsdom),
+        isConnected: () => connected,
+        async close() {
+            connected = false;
+        },
+    };
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync, mkdirSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { diagramHash, findMermaidBlocks, renderMarkdown, renderMarkdownFile } from './markdown.js';
+
+const DOC = `# Title
+
+\`\`\`mermaid
+graph TD
+    A --> B
+\`\`\`
+
+\`\`\`js
+const x = 1;
+\`\`\`
+
+  ~~~~ Mermaid
+  sequenceDiagram
+    A->>B: hi
+  ~~~~
+`;
+
+describe('findMermaidBlocks', () => {
+    it('should find backtick and tilde mermaid fences only', () => {
+        const blocks = findMermaidBlocks(DOC);
+
+        expect(blocks.map(block => block.code)).toEqual([
+            'graph TD\n    A --> B',
+            'sequenceDiagram\n  A->>B: hi'
+        ]);
+        expect(blocks.map(block => block.line)).toEqual([4, 13]);
+        expect(DOC.slice(blocks[0].start, blocks[0].end)).toBe('```mermaid\ngraph TD\n    A --> B\n```');
+    });
+
+    it('should not close a fence with a shorter or different fence', () => {
+        const blocks = findMermaidBlocks('````mermaid\ngraph TD\n```\n~~~\n````\n');
+
+        expect(blocks).toHaveLength(1);
+        expect(blocks[0].code).toBe('graph TD\n```\n~~~');
+    });
+
+    it('should run an unclosed fence to the end of the document', () => {
+        const markdown = 'text\n```mermaid\ngraph LR\n  A --> B';
+
+        const [block] = findMermaidBlocks(markdown);
+
+        expect(block.code).toBe('graph LR\n  A --> B');
+        expect(block.end).toBe(markdown.length);
+    });
+
+    it('should find fences indented inside list items', () => {
+        const markdown = '1. Step\n\n    ```mermaid\n    graph TD\n      A --> B\n    ```\n';
+
+        const [block] = findMermaidBlocks(markdown);
+
+        expect(block.code).toBe('graph TD\n  A --> B');
+        expect(markdown.slice(block.start, block.end)).toBe('    ```mermaid\n    graph TD\n      A --> B\n    ```');
+    });
+
+    it('should handle CRLF line endings', () => {
+        const [block] = findMermaidBlocks('```mermaid\r\ngraph TD\r\n```\r\n');
+
+        expect(block.code).toBe('graph TD');
+    });
+});
+
+describe('renderMarkdown', () => {
+    let dir: string;
+    let mermaidPath: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'mermaid-markdown-'));
+        mermaidPath = join(dir, 'mermaid.min.js');
+        writeFileSync(mermaidPath, 'window.mermaid = {};');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    /** Hashes with the stub bundle so no mermaid package is needed */
+    function hash(code: string, options: Parameters<typeof diagramHash>[1] = {}) {
+        return diagramHash(code, { mermaidPath, ...options });
+    }
+
+    /** Pre-populates the hash cache so no browser is needed */
+    function cache(code: string, content: string, options: { format?: 'svg' | 'png'; theme?: 'dark' } = {}) {
+        const imagesDir = join(dir, 'images');
+        mkdirSync(imagesDir, { recursive: true });
+        const key = hash(code, options);
+        writeFileSync(join(imagesDir, `diagram-${key}.${options.format ?? 'svg'}`), content);
+        return key;
+    }
+
+    it('should hash the source together with the render options', () => {
+        expect(hash('graph TD')).toMatch(/^[0-9a-f]{16}$/);
+        expect(hash('graph TD')).toBe(hash('graph TD'));
+        expect(hash('graph TD')).not.toBe(hash('graph LR'));
+        expect(hash('graph TD')).not.toBe(hash('graph TD', { theme: 'dark' }));
+        expect(hash('graph TD')).not.toBe(hash('graph TD', { format: 'png' }));
+        expect(hash('graph TD')).not.toBe(hash('graph TD', { mermaidConfig: { fontFamily: 'Inter' } }));
+    });
+
+    it('should hash the contents of the Mermaid bundle and font files', () => {
+        writeFileSync(join(dir, 'font.woff2'), 'one');
+        const fonts = [{ family: 'Inter', src: join(dir, 'font.woff2') }];
+        const before = [hash('graph TD'), hash('graph TD', { fonts })];
+
+        writeFileSync(join(dir, 'font.woff2'), 'two');
+        expect(hash('graph TD', { fonts })).not.toBe(before[1]);
+
+        // Bundles are cached by path, so a changed bundle needs a new path
+        const otherBundle = join(dir, 'other.min.js');
+        writeFileSync(otherBundle, 'window.mermaid = { patched: true };');
+        expect(diagramHash('graph TD', { mermaidPath: otherBundle })).not.toBe(before[0]);
+    });
+
+    it('should hash the backend name', () => {
+        expect(hash('graph TD')).toBe(hash('graph TD', { backend: 'puppeteer' }));
+        expect(hash('graph TD')).not.toBe(hash('graph TD', { backend: 'jsdom' }));
+        expect(hash('graph TD', { backend: 'playwright' })).not.toBe(hash('graph TD', { backend: 'jsdom' }));
+    });
+
+    it('should replace blocks with links to cached images', async () => {
+        const first = cache('graph TD\n    A --> B', '<svg>1</svg>');
+        const second = cache('sequenceDiagram\n  A->>B: hi', '<svg>2</svg>');
+
+        const result = await renderMarkdown(DOC, { imagesDir: join(dir, 'images'), linkBase: dir, mermaidPath });
+
+        expect(result.markdown).toBe(`# Title
+
+![Mermaid diagram](images/diagram-${first}.svg)
+
+\`\`\`js
+const x = 1;
+\`\`\`
+
+![Mermaid diagram](images/diagram-${second}.svg)
+`);
+        expect(result.diagrams).toEqual([
+            { line: 4, hash: first, file: join(dir, 'images', `diagram-${first}.svg`), rendered: false },
+            { line: 13, hash: second, file: join(dir, 'images', `diagram-${second}.svg`), rendered: false }
+        ]);
+    });
+
+    it('should percent-encode links to paths with spaces and parentheses', async () => {
+        const imagesDir = join(dir, 'my images (v2)');
+        mkdirSync(imagesDir);
+        writeFileSync(join(imagesDir, `diagram-${hash('graph TD')}.svg`), '<svg/>');
+
+        const { markdown } = await renderMarkdown('```mermaid\ngraph TD\n```', { imagesDir, linkBase: dir, mermaidPath });
+
+        expect(markdown).toBe(`![Mermaid diagram](my%20images%20%28v2%29/diagram-${hash('graph TD')}.svg)`);
+    });
+
+    it('should render missing diagrams through a temporary file', async () => {
+        const installed = createRequire(import.meta.url).resolve('mermaid/dist/mermaid.min.js');
+
+        const { diagrams } = await renderMarkdown('```mermaid\ngraph TD\n    A --> B\n```', {
+            imagesDir: join(dir, 'images'),
+            backend: 'jsdom',
+            mermaidPath: installed
+        });
+
+        expect(diagrams[0].rendered).toBe(true);
+        expect(readdirSync(join(dir, 'images'))).toEqual([`diagram-${diagrams[0].hash}.svg`]);
+        expect(readFileSync(diagrams[0].file, 'utf-8')).toMatch(/^<svg[\s\S]*<\/svg>$/);
+    }, 30000);
+
+    it('should inline cached SVG without blank lines', async () => {
+        cache('graph TD', '<svg>\n\n<g/>\n</svg>\n');
+
+        const { markdown } = await renderMarkdown('before\n```mermaid\ngraph TD\n```\nafter', {
+            imagesDir: join(dir, 'images'),
+            inline: true,
+            mermaidPath
+        });
+
+        expect(markdown).toBe('before\n<svg>\n<g/>\n</svg>\nafter');
+    });
+
+    it('should prefix inlined SVG ids and classes per diagram', async () => {
+        cache('graph TD', '<svg id="mermaid-0"><style>#mermaid-0 .node{fill:red}</style><g class="node"/></svg>');
+
+        const { markdown, diagrams } = await renderMarkdown('```mermaid\ngraph TD\n```', {
+            imagesDir: join(dir, 'images'),
+            inline: true,
+            mermaidPath
+        });
+
+        const prefix = `diagram-${diagrams[0].hash}-`;
+        expect(markdown).toBe(`<svg id="${prefix}mermaid-0"><style>#${prefix}mermaid-0 .${prefix}node{fill:red}</style><g class="${prefix}node"/></svg>`);
+    });
+
+    it('should reject inlining raster formats', async () => {
+        await expect(renderMarkdown('', { imagesDir: dir, inline: true, format: 'png' })).rejects.toThrow('Inlining requires format: svg');
+    });
+
+    it('should leave Markdown without diagrams unchanged', async () => {
+        const result = await renderMarkdown('# Nothing here\n', { imagesDir: join(dir, 'images') });
+
+        expect(result).toEqual({ markdown: '# Nothing here\n', diagrams: [] });
+    });
+
+    it('should write the rewritten file with links relative to it', async () => {
+        const hash = cache('graph TD', 'png', { format: 'png', theme: 'dark' });
+        writeFileSync(join(dir, 'README.md'), '```mermaid\ngraph TD\n```\n');
+
+        await renderMarkdownFile(join(dir, 'README.md'), join(dir, 'build', 'README.md'), {
+            imagesDir: join(dir, 'images'),
+            format: 'png',
+            theme: 'dark',
+            mermaidPath
+        });
+
+        expect(readFileSync(join(dir, 'build', 'README.md'), 'utf-8')).toBe(`![Mermaid diagram](../images/diagram-${hash}.png)\n`);
+    });
+});
@@ -0,0 +1,258 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, sep } from 'node:path';
+import { pageSetup } from './config.js';
+import { MermaidSyntaxError } from './errors.js';
+import { renderToBuffer, renderToSvg } from './renderer.js';
+import { resolveMermaidScript } from './mermaid-source.js';
+import { prefixSvg } from './svg.js';
+import type { ExportOptions, PdfPageOptions } from './types.js';
+
+/**
+ * A ```mermaid (or ~~~mermaid) fenced code block found in Markdown
+ */
+export interface MermaidBlock {
+    /** Diagram source, with the fence's indentation removed */
+    code: string;
+    /** Offset of the opening fence in the Markdown */
+    start: number;
+    /** Offset just past the closing fence (or the end of the Markdown) */
+    end: number;
+    /** 1-based line of the first diagram line */
+    line: number;
+}
+
+/**
+ * Find the Mermaid fenced code blocks in a Markdown document
+ */
+export function findMermaidBlocks(markdown: string): MermaidBlock[] {
+    const blocks: MermaidBlock[] = [];
+    const lines = markdown.split('\n');
+    let offset = 0;
+    let open: { char: string; length: number; indent: number; start: number; line: number; body: string[]; mermaid: boolean } | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].replace(/\r$/, '');
+        const lineEnd = offset + lines[i].length + (i < lines.length - 1 ? 1 : 0);
+
+        if (!open) {
+            // Any indentation, so fences nested in list items are found too
+            const fence = /^( *)(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/.exec(line);
+            if (fence) {
+                open = {
+                    char: fence[2][0],
+                    length: fence[2].length,
+                    indent: fence[1].length,
+                    start: offset,
+                    line: i + 2,
+                    body: [],
+                    mermaid: fence[3].toLowerCase() === 'mermaid'
+                };
+            }
+        } else {
+            const close = /^ *(`{3,}|~{3,})\s*$/.exec(line);
+            if (close && close[1][0] === open.char && close[1].length >= open.length) {
+                if (open.mermaid) {
+                    blocks.push({ code: open.body.join('\n'), start: open.start, end: offset + line.length, line: open.line });
+                }
+                open = null;
+            } else {
+                open.body.push(line.replace(new RegExp(`^ {0,${open.indent}}`), ''));
+            }
+        }
+        offset = lineEnd;
+    }
+
+    // An unclosed fence runs to the end of the document
+    if (open?.mermaid) {
+        blocks.push({ code: open.body.join('\n'), start: open.start, end: markdown.length, line: open.line });
+    }
+    return blocks;
+}
+
+export interface MarkdownRenderOptions extends Omit<ExportOptions, 'format' | keyof PdfPageOptions> {
+    /** Directory rendered images are written to; also caches SVG when inlining */
+    imagesDir: string;
+    /** Image format (default: 'svg') */
+    format?: Exclude<ExportOptions['format'], 'pdf'>;
+    /** Replace each block with its SVG markup instead of an image link (default: false) */
+    inline?: boolean;
+    /** Directory image links are relative to, usually the output Markdown's (default: process.cwd()) */
+    linkBase?: string;
+}
+
+/** What happened to one diagram */
+export interface RenderedDiagram {
+    /** 1-based line of the diagram in the Markdown */
+    line: number;
+    /** Content hash used in the image name */
+    hash: string;
+    /** Image file path */
+    file: string;
+    /** False when an earlier render with the same hash was reused */
+    rendered: boolean;
+}
+
+export interface MarkdownRenderResult {
+    markdown: string;
+    diagrams: RenderedDiagram[];
+}
+
+/** Digests of inlined Mermaid bundles, so each is hashed once */
+const bundleDigests = new Map<string, string>();
+
+function bundleDigest(content: string): string {
+    let digest = bundleDigests.get(content);
+    if (digest === undefined) {
+        digest = createHash('sha256').update(content).digest('hex');
+        bundleDigests.set(content, digest);
+    }
+    return digest;
+}
+
+/**
+ * Hash of everything that affects a diagram's output, so changing the
+ * source, the options, the Mermaid bundle, font and icon files or the
+ * backend produces a new image. Caller-provided backends all hash as 'custom'.
+ */
+export function diagramHash(code: string, options: Omit<MarkdownRenderOptions, 'imagesDir' | 'inline' | 'linkBase'>): string {
+    const { format = 'svg', theme, backgroundColor, scale, width, height, mermaidPath, mermaidVersion, mermaidCdn } = options;
+    const { mermaidConfig, fonts, iconPacks, backend = 'puppeteer' } = options;
+    const { embedFonts, prefix, sanitize, minify, xmlDeclaration } = options;
+    const script = resolveMermaidScript({ mermaidPath, mermaidVersion, mermaidCdn });
+    return createHash('sha256')
+        .update(JSON.stringify([code, format, theme, backgroundColor, scale, width, height, script.version]))
+        .update(script.type === 'inline' ? bundleDigest(script.content) : script.url)
+        // The page setup inlines font and icon files, so their contents are hashed rather than their paths
+        .update(JSON.stringify([mermaidConfig, pageSetup({ fonts, iconPacks })]))
+        .update(JSON.stringify([embedFonts, prefix, sanitize, minify, xmlDeclaration]))
+        .update(typeof backend === 'object' ? 'custom' : backend)
+        .digest('hex')
+        .slice(0, 16);
+}
+
+/**
+ * Write `data` to `file` through a temporary file, so an interrupted run
+ * can't leave a partial image that later runs would reuse
+ */
+async function writeAtomic(file: string, data: string | Buffer): Promise<void> {
+    const temp = `${file}.${randomUUID()}.tmp`;
+    try {
+        await writeFile(temp, data);
+        await rename(temp, file);
+    } catch (error) {
+        await rm(temp, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Percent-encodes a relative path for a Markdown link destination, including
+ * the parentheses that would end it and the characters that start a query or fragment
+ */
+function linkDestination(path: string): string {
+    return encodeURI(path).replace(/[()#?]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Adds the Markdown line of a failing diagram to its error, turning a parse
+ * error's line within the diagram into a line within the document.
+ */
+function locateError(error: unknown, block: MermaidBlock): Error {
+    const message = error instanceof Error ? error.message : String(error);
+    const diagramLine = error instanceof MermaidSyntaxError && error.line !== undefined
+        ? error.line
+        : Number(/\bline (\d+)/i.exec(message)?.[1] ?? 1);
+    return new Error(`Mermaid diagram on line ${block.line + diagramLine - 1}: ${message}`, { cause: error });
+}
+
+/**
+ * Render every ```mermaid block in a Markdown document and rewrite the
+ * document to reference the images (or inline the SVG). Images are named by
+ * a hash of their source and options, and diagrams whose image already
+ * exists are not rendered again.
+ *
+ * @example
+ * ```typescript
+ * import { renderMarkdown } from 'mermaid-export';
+ *
+ * const { markdown } = await renderMarkdown(source, {
+ *   imagesDir: './docs/diagrams',
+ *   linkBase: './docs'
+ * });
+ * // ```mermaid blocks become ![Mermaid diagram](diagrams/diagram-<hash>.svg)
+ * ```
+ */
+export async function renderMarkdown(markdown: string, options: MarkdownRenderOptions): Promise<MarkdownRenderResult> {
+    const { imagesDir, inline = false, linkBase = process.cwd(), ...renderOptions } = options;
+    const { format = 'svg' } = renderOptions;
+    if (inline && format !== 'svg') {
+        throw new Error('Inlining requires format: svg');
+    }
+
+    const blocks = findMermaidBlocks(markdown);
+    const diagrams: RenderedDiagram[] = [];
+    const replacements: string[] = [];
+    if (blocks.length > 0) {
+        await mkdir(imagesDir, { recursive: true });
+    }
+
+    for (const block of blocks) {
+        const hash = diagramHash(block.code, renderOptions);
+        const file = join(imagesDir, `diagram-${hash}.${format}`);
+        const cached = existsSync(file);
+
+        if (!cached) {
+            let output: string | Buffer;
+            try {
+                output = format === 'svg'
+                    ? await renderToSvg(block.code, renderOptions)
+                    : await renderToBuffer(block.code, format, renderOptions);
+            } catch (error) {
+                throw locateError(error, block);
+            }
+            await writeAtomic(file, output);
+        }
+        diagrams.push({ line: block.line, hash, file, rendered: !cached });
+
+        if (inline) {
+            // Blank lines would end the HTML block in Markdown
+            const svg = (await readFile(file, 'utf-8'))
+                .replace(/^<\?xml[^>]*>/, '')
+                .replace(/\n\s*\n/g, '\n')
+                .trim();
+            // Without a prefix, ids repeat across diagrams and their styles leak into each other
+            replacements.push(renderOptions.prefix ? svg : prefixSvg(svg, `diagram-${hash}-`));
+        } else {
+            const link = relative(linkBase, file).split(sep).join('/');
+            replacements.push(`![Mermaid diagram](${linkDestination(link)})`);
+        }
+    }
+
+    let result = '';
+    let position = 0;
+    blocks.forEach((block, index) => {
+        result += markdown.slice(position, block.start) + replacements[index];
+        position = block.end;
+    });
+    result += markdown.slice(position);
+
+    return { markdown: result, diagrams };
+}
+
+/**
+ * Render the Mermaid blocks of a Markdown file and write the rewritten
+ * Markdown to `outputPath`. Image links are relative to the output file.
+ */
+export async function renderMarkdownFile(
+    inputPath: string,
+    outputPath: string,
+    options: Omit<MarkdownRenderOptions, 'linkBase'>
+): Promise<MarkdownRenderResult> {
+    const source = await readFile(inputPath, 'utf-8');
+    const result = await renderMarkdown(source, { ...options, linkBase: dirname(outputPath) });
+    await mkdir(dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, result.markdown, 'utf-8');
+    return result;
+}
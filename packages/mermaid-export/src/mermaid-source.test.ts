@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { mermaidScriptTags, resolveMermaidScript } from './mermaid-source.js';
+
+describe('resolveMermaidScript', () => {
+    let project: string;
+
+    beforeEach(() => {
+        project = mkdtempSync(join(tmpdir(), 'mermaid-source-'));
+    });
+
+    afterEach(() => {
+        rmSync(project, { recursive: true, force: true });
+    });
+
+    function installMermaid(version: string) {
+        const dir = join(project, 'node_modules', 'mermaid');
+        mkdirSync(join(dir, 'dist'), { recursive: true });
+        writeFileSync(join(dir, 'package.json'), JSON.stringify({ name: 'mermaid', version }));
+        writeFileSync(join(dir, 'dist', 'mermaid.min.js'), `window.mermaid = { version: '${version}' };`);
+    }
+
+    it('should inline the installed mermaid package', () => {
+        installMermaid('11.4.1');
+
+        const script = resolveMermaidScript({}, project);
+
+        expect(script).toEqual({ type: 'inline', content: "window.mermaid = { version: '11.4.1' };", version: '11.4.1' });
+    });
+
+    it('should accept a matching pinned version', () => {
+        installMermaid('11.4.1');
+
+        expect(resolveMermaidScript({ mermaidVersion: '11.4.1' }, project).version).toBe('11.4.1');
+    });
+
+    it('should reject an installed version that does not match the pin', () => {
+        installMermaid('11.3.0');
+
+        expect(() => resolveMermaidScript({ mermaidVersion: '11.4.1' }, project))
+            .toThrow('Installed mermaid is 11.3.0 but mermaidVersion requires 11.4.1');
+    });
+
+    it('should prefer mermaidPath over the installed package', () => {
+        installMermaid('11.4.1');
+        writeFileSync(join(project, 'custom.js'), 'window.mermaid = {};');
+
+        const script = resolveMermaidScript({ mermaidPath: 'custom.js' }, project);
+
+        expect(script).toMatchObject({ type: 'inline', content: 'window.mermaid = {};' });
+    });
+
+    it('should fail when no local copy is found and the CDN is not allowed', () => {
+        expect(() => resolveMermaidScript({}, project)).toThrow('Mermaid not found');
+    });
+
+    it('should load from the CDN when allowed, pinned when a version is given', () => {
+        expect(resolveMermaidScript({ mermaidCdn: true }, project)).toEqual({
+            type: 'module',
+            url: 'https://cdn.jsdelivr.net/npm/mermaid@11/dist/mermaid.esm.min.mjs',
+            version: '11'
+        });
+        expect(resolveMermaidScript({ mermaidCdn: true, mermaidVersion: '11.4.1' }, project)).toMatchObject({
+            url: 'https://cdn.jsdelivr.net/npm/mermaid@11.4.1/dist/mermaid.esm.min.mjs'
+        });
+    });
+
+    it('should reject versions that are not exact', () => {
+        for (const mermaidVersion of ['11', '^11.4.1', "11.4.1';alert(1)//", '11.4.1/../../evil']) {
+            expect(() => resolveMermaidScript({ mermaidCdn: true, mermaidVersion }, project))
+                .toThrow('mermaidVersion must be an exact version');
+        }
+        expect(resolveMermaidScript({ mermaidCdn: true, mermaidVersion: '11.5.0-rc.1' }, project).version).toBe('11.5.0-rc.1');
+    });
+});
+
+describe('mermaidScriptTags', () => {
+    it('should import module scripts', () => {
+        const tags = mermaidScriptTags({ type: 'module', url: 'https://cdn.example/mermaid.mjs', version: '11' });
+
+        expect(tags.head).toBe('');
+        expect(tags.importStatement).toBe("import mermaid from 'https://cdn.example/mermaid.mjs';");
+    });
+
+    it('should inline bundles without letting them close the script tag', () => {
+        const tags = mermaidScriptTags({ type: 'inline', content: 'var s = "</script>";', version: null });
+
+        expect(tags.head).toBe('<script>var s = "<\\/script>";</script>');
+        expect(tags.importStatement).toBe('const mermaid = window.mermaid;');
+    });
+});
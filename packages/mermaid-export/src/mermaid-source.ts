@@ -0,0 +1,107 @@
+import { existsSync, readFileSync, realpathSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import type { MermaidSourceOptions } from './types.js';
+
+/** Mermaid CDN used with `mermaidCdn` when no local copy is available */
+const MERMAID_CDN = 'https://cdn.jsdelivr.net/npm/mermaid@{version}/dist/mermaid.esm.min.mjs';
+
+/** Major version loaded from the CDN when no version is pinned */
+const DEFAULT_CDN_VERSION = '11';
+
+/** Browser bundle inside the mermaid package that defines `window.mermaid` */
+const BUNDLE_PATH = 'dist/mermaid.min.js';
+
+/**
+ * Where the page gets Mermaid from: an inline bundle, or an ES module URL.
+ */
+export type MermaidScript =
+    | { type: 'inline'; content: string; version: string | null }
+    | { type: 'module'; url: string; version: string };
+
+/** Exact version such as 11.4.1 or 11.5.0-rc.1 */
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+/** Bundles already read from disk, keyed by absolute path */
+const bundleCache = new Map<string, string>();
+
+function readBundle(path: string): string {
+    let content = bundleCache.get(path);
+    if (content === undefined) {
+        content = readFileSync(path, 'utf-8');
+        bundleCache.set(path, content);
+    }
+    return content;
+}
+
+/**
+ * Finds the `mermaid` package installed for the project in `cwd`, looking in
+ * `node_modules` of `cwd` and its parents. `NODE_PATH` is ignored: pnpm's bin
+ * shims point it at the whole store, which isn't what the project installed.
+ */
+function findInstalledMermaid(cwd: string): { dir: string; version: string } | null {
+    for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+        const manifestPath = join(dir, 'node_modules', 'mermaid', 'package.json');
+        if (existsSync(manifestPath)) {
+            const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as { version: string };
+            return { dir: dirname(realpathSync(manifestPath)), version: manifest.version };
+        }
+        if (dirname(dir) === dir) {
+            return null;
+        }
+    }
+}
+
+/**
+ * Decides where the renderer loads Mermaid from, in order:
+ * 1. `mermaidPath`, read from disk and inlined into the page
+ * 2. the `mermaid` package installed in the project, inlined the same way
+ *    (it must match `mermaidVersion` when one is given)
+ * 3. the jsDelivr CDN, at `mermaidVersion` or the latest 11.x, only when
+ *    `mermaidCdn` is set
+ */
+export function resolveMermaidScript(options: MermaidSourceOptions = {}, cwd = process.cwd()): MermaidScript {
+    const { mermaidPath, mermaidVersion, mermaidCdn = false } = options;
+
+    if (mermaidVersion !== undefined && !VERSION_PATTERN.test(mermaidVersion)) {
+        throw new Error(`mermaidVersion must be an exact version such as 11.4.1, got ${JSON.stringify(mermaidVersion)}`);
+    }
+
+    if (mermaidPath) {
+        return { type: 'inline', content: readBundle(resolve(cwd, mermaidPath)), version: mermaidVersion ?? null };
+    }
+
+    const installed = findInstalledMermaid(cwd);
+    if (installed) {
+        if (mermaidVersion && installed.version !== mermaidVersion) {
+            throw new Error(
+                `Installed mermaid is ${installed.version} but mermaidVersion requires ${mermaidVersion}. ` +
+                `Install mermaid@${mermaidVersion} or set mermaidPath.`
+            );
+        }
+        return { type: 'inline', content: readBundle(join(installed.dir, BUNDLE_PATH)), version: installed.version };
+    }
+
+    if (!mermaidCdn) {
+        throw new Error(
+            'Mermaid not found: install the mermaid package, set mermaidPath to a Mermaid browser bundle, ' +
+            'or set mermaidCdn to load it from jsDelivr.'
+        );
+    }
+
+    const version = mermaidVersion ?? DEFAULT_CDN_VERSION;
+    return { type: 'module', url: MERMAID_CDN.replace('{version}', version), version };
+}
+
+/**
+ * Builds the script tags that make `mermaid` available to the page's module
+ * script. Inline bundles are escaped so they can't close their script tag.
+ */
+export function mermaidScriptTags(script: MermaidScript): { head: string; importStatement: string } {
+    if (script.type === 'module') {
+        return { head: '', importStatement: `import mermaid from '${script.url}';` };
+    }
+    return {
+        head: `<script>${script.content.replace(/<\/script/gi, '<\\/script')}</script>`,
+        importStatement: 'const mermaid = window.mermaid;'
+    };
+}
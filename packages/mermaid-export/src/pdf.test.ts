@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { layoutPdfPage, pdfPageStyles, toPixels } from './pdf.js';
+
+describe('toPixels', () => {
+    it('should convert CSS lengths to pixels', () => {
+        expect(toPixels(12)).toBe(12);
+        expect(toPixels('12')).toBe(12);
+        expect(toPixels('1in')).toBe(96);
+        expect(toPixels('72pt')).toBe(96);
+        expect(toPixels('25.4mm')).toBeCloseTo(96);
+        expect(toPixels('2.54cm')).toBeCloseTo(96);
+    });
+
+    it('should reject unknown units', () => {
+        expect(() => toPixels('1em')).toThrow('Invalid length "1em"');
+        expect(() => toPixels('-5px')).toThrow('Invalid length');
+    });
+});
+
+describe('layoutPdfPage', () => {
+    it('should size fit pages to the diagram and its margins', () => {
+        expect(layoutPdfPage({ width: 300, height: 200 })).toEqual({
+            width: 300,
+            height: 200,
+            margin: { top: 0, right: 0, bottom: 0, left: 0 },
+            diagram: { width: 300, height: 200 }
+        });
+        expect(layoutPdfPage({ width: 300, height: 200 }, { margin: { top: 10, left: '1in' } })).toMatchObject({
+            width: 396,
+            height: 210
+        });
+    });
+
+    it('should use A4 and Letter sizes with a default margin', () => {
+        const a4 = layoutPdfPage({ width: 100, height: 100 }, { pageSize: 'A4' });
+
+        expect(a4.width).toBeCloseTo(793.7, 1);
+        expect(a4.height).toBeCloseTo(1122.5, 1);
+        expect(a4.margin.top).toBeCloseTo(37.8, 1);
+        expect(a4.diagram).toEqual({ width: 100, height: 100 });
+
+        const letter = layoutPdfPage({ width: 100, height: 100 }, { pageSize: 'Letter', orientation: 'landscape', margin: 0 });
+
+        expect(letter).toMatchObject({ width: 1056, height: 816 });
+    });
+
+    it('should shrink large diagrams to fit inside the margins', () => {
+        const layout = layoutPdfPage({ width: 2056, height: 400 }, { pageSize: 'Letter', orientation: 'landscape', margin: '0.5in' });
+
+        expect(layout.diagram.width).toBeCloseTo(960);
+        expect(layout.diagram.height).toBeCloseTo(400 * 960 / 2056);
+    });
+
+    it('should reject margins that fill the page', () => {
+        expect(() => layoutPdfPage({ width: 10, height: 10 }, { pageSize: 'A4', margin: '110mm' })).toThrow('no room');
+    });
+});
+
+describe('pdfPageStyles', () => {
+    it('should give every diagram a named page of its own size', () => {
+        const css = pdfPageStyles([
+            layoutPdfPage({ width: 300, height: 200 }),
+            layoutPdfPage({ width: 100, height: 50 }, { margin: 5 })
+        ], 'white');
+
+        expect(css).toContain('background-color: white');
+        expect(css).toContain('@page page-0 { size: 300px 200px; margin: 0; }');
+        expect(css).toContain('@page page-1 { size: 110px 60px; margin: 0; }');
+        expect(css).toContain('padding: 5px 5px 5px 5px;');
+    });
+});
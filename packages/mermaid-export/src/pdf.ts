@@ -0,0 +1,125 @@
+import type { PdfLength, PdfPageOptions } from './types.js';
+
+/** CSS pixels per unit; CSS defines 96px per inch */
+const PX_PER_UNIT: Record<string, number> = {
+    px: 1,
+    pt: 96 / 72,
+    in: 96,
+    cm: 96 / 2.54,
+    mm: 96 / 25.4,
+};
+
+/** Portrait page sizes in CSS pixels */
+const PAGE_SIZES = {
+    A4: { width: 210 * PX_PER_UNIT.mm, height: 297 * PX_PER_UNIT.mm },
+    Letter: { width: 8.5 * PX_PER_UNIT.in, height: 11 * PX_PER_UNIT.in },
+};
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+/**
+ * Where one diagram goes on its PDF page, in CSS pixels
+ */
+export interface PdfPageLayout extends Size {
+    margin: { top: number; right: number; bottom: number; left: number };
+    /** Diagram size after scaling it down to fit inside the margins */
+    diagram: Size;
+}
+
+/**
+ * Convert a length to CSS pixels
+ */
+export function toPixels(length: PdfLength): number {
+    if (typeof length === 'number') {
+        return length;
+    }
+    const match = /^\s*(\d+(?:\.\d+)?|\.\d+)\s*(px|pt|in|cm|mm)?\s*$/.exec(length);
+    if (!match) {
+        throw new Error(`Invalid length "${length}". Use a number of pixels or a px, pt, mm, cm or in value`);
+    }
+    return Number(match[1]) * PX_PER_UNIT[match[2] ?? 'px'];
+}
+
+/**
+ * Lay out a diagram on its page. 'fit' pages wrap the diagram and its
+ * margins; fixed page sizes shrink larger diagrams to fit and center them.
+ */
+export function layoutPdfPage(diagram: Size, options: PdfPageOptions = {}): PdfPageLayout {
+    const { pageSize = 'fit', orientation = 'portrait' } = options;
+    const { margin = pageSize === 'fit' ? 0 : '10mm' } = options;
+    const sides = typeof margin === 'object'
+        ? margin
+        : { top: margin, right: margin, bottom: margin, left: margin };
+    const resolved = {
+        top: toPixels(sides.top ?? 0),
+        right: toPixels(sides.right ?? 0),
+        bottom: toPixels(sides.bottom ?? 0),
+        left: toPixels(sides.left ?? 0),
+    };
+    const horizontal = resolved.left + resolved.right;
+    const vertical = resolved.top + resolved.bottom;
+
+    if (pageSize === 'fit') {
+        return {
+            width: diagram.width + horizontal,
+            height: diagram.height + vertical,
+            margin: resolved,
+            diagram,
+        };
+    }
+
+    const page = PAGE_SIZES[pageSize];
+    if (!page) {
+        throw new Error(`Unknown page size "${pageSize}". Expected one of: fit, A4, Letter`);
+    }
+    const { width, height } = orientation === 'landscape'
+        ? { width: page.height, height: page.width }
+        : page;
+    const scale = Math.min(1, (width - horizontal) / diagram.width, (height - vertical) / diagram.height);
+    if (!(scale > 0)) {
+        throw new Error('PDF margins leave no room for the diagram');
+    }
+
+    return {
+        width,
+        height,
+        margin: resolved,
+        diagram: { width: diagram.width * scale, height: diagram.height * scale },
+    };
+}
+
+/**
+ * CSS giving each diagram its own named page, so pages can differ in size
+ */
+export function pdfPageStyles(layouts: PdfPageLayout[], backgroundColor: string): string {
+    const pages = layouts.map((layout, index) => {
+        const { top, right, bottom, left } = layout.margin;
+        return `@page page-${index} { size: ${layout.width}px ${layout.height}px; margin: 0; }
+.pdf-page-${index} {
+    page: page-${index};
+    width: ${layout.width}px;
+    height: ${layout.height}px;
+    padding: ${top}px ${right}px ${bottom}px ${left}px;
+}
+.pdf-page-${index} svg {
+    width: ${layout.diagram.width}px !important;
+    height: ${layout.diagram.height}px !important;
+    max-width: none !important;
+}`;
+    });
+
+    return `html, body { margin: 0; padding: 0; background-color: ${backgroundColor}; }
+.pdf-page {
+    box-sizing: border-box;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    overflow: hidden;
+    break-after: page;
+}
+.pdf-page:last-child { break-after: auto; }
+${pages.join('\n')}`;
+}
@@ -0,0 +1,57 @@
+import type { BrowserContext, Page } from 'playwright';
+import { missingPackage } from './backend.js';
+import type { BackendOptions, RenderBackend, RenderPage } from './types.js';
+
+function playwrightPage(page: Page, context: BrowserContext): RenderPage {
+    return {
+        async setContent(html, timeout) {
+            await page.setContent(html, { waitUntil: 'networkidle', timeout });
+        },
+        // Arguments are plain data, so the handle unwrapping in Playwright's types doesn't apply
+        evaluate: (fn, arg) => page.evaluate(fn as (arg: unknown) => ReturnType<typeof fn>, arg) as Promise<Awaited<ReturnType<typeof fn>>>,
+        async waitForFunction(fn, timeout) {
+            await page.waitForFunction(fn, undefined, { timeout });
+        },
+        async screenshot({ type, clip, omitBackground }) {
+            if (type === 'webp') {
+                throw new Error('The playwright backend cannot capture webp; use png or jpeg, or the puppeteer backend');
+            }
+            return page.screenshot({ type, clip, omitBackground });
+        },
+        pdf: () => page.pdf({ preferCSSPageSize: true, printBackground: true }),
+        // Each page has its own context, which sets its device scale factor
+        close: () => context.close(),
+        isClosed: () => page.isClosed(),
+    };
+}
+
+/**
+ * Launch Chromium with Playwright, or connect over CDP to the browser at
+ * `browserWSEndpoint`
+ */
+export async function launchPlaywright(options: BackendOptions = {}): Promise<RenderBackend> {
+    let playwright: typeof import('playwright');
+    try {
+        playwright = await import('playwright');
+    } catch (error) {
+        throw missingPackage('playwright', error);
+    }
+
+    const { browserWSEndpoint, launchOptions = {} } = options;
+    const browser = browserWSEndpoint
+        ? await playwright.chromium.connectOverCDP(browserWSEndpoint)
+        : await playwright.chromium.launch({ headless: true, ...launchOptions });
+
+    return {
+        async newPage(viewport) {
+            const context = await browser.newContext(viewport && {
+                viewport: { width: viewport.width, height: viewport.height },
+                deviceScaleFactor: viewport.deviceScaleFactor,
+            });
+            return playwrightPage(await context.newPage(), context);
+        },
+        isConnected: () => browser.isConnected(),
+        // Disconnects, without closing, a browser connected over CDP
+        close: () => browser.close(),
+    };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createPool } from './pool.js';
+
+interface Resource {
+    id: number;
+    healthy: boolean;
+}
+
+function setup(size: number) {
+    let created = 0;
+    const create = vi.fn(async (): Promise<Resource> => ({ id: ++created, healthy: true }));
+    const destroy = vi.fn(async (_resource: Resource) => undefined);
+    const pool = createPool({ size, create, destroy, isHealthy: resource => resource.healthy });
+    return { pool, create, destroy };
+}
+
+/** A task that stays running until `finish` is called */
+function deferred() {
+    let finish!: () => void;
+    const done = new Promise<void>(resolve => {
+        finish = resolve;
+    });
+    return { done, finish };
+}
+
+describe('createPool', () => {
+    it('should reuse idle resources instead of creating new ones', async () => {
+        const { pool, create } = setup(2);
+
+        const first = await pool.use(async resource => resource.id);
+        const second = await pool.use(async resource => resource.id);
+
+        expect([first, second]).toEqual([1, 1]);
+        expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run at most size tasks at once', async () => {
+        const { pool, create } = setup(2);
+        const tasks = [deferred(), deferred(), deferred()];
+        let running = 0;
+        let peak = 0;
+
+        const results = tasks.map(task => pool.use(async resource => {
+            peak = Math.max(peak, ++running);
+            await task.done;
+            running--;
+            return resource.id;
+        }));
+        await vi.waitFor(() => expect(running).toBe(2));
+        tasks.forEach(task => task.finish());
+
+        expect(await Promise.all(results)).toEqual([1, 2, expect.any(Number)]);
+        expect(peak).toBe(2);
+        expect(create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should release resources when tasks fail', async () => {
+        const { pool } = setup(1);
+
+        await expect(pool.use(async () => {
+            throw new Error('boom');
+        })).rejects.toThrow('boom');
+
+        expect(await pool.use(async resource => resource.id)).toBe(1);
+    });
+
+    it('should destroy unhealthy resources', async () => {
+        const { pool, create, destroy } = setup(1);
+
+        await pool.use(async resource => {
+            resource.healthy = false;
+        });
+
+        expect(destroy).toHaveBeenCalledWith({ id: 1, healthy: false });
+        expect(await pool.use(async resource => resource.id)).toBe(2);
+        expect(create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should free the slot when creating a resource fails', async () => {
+        const create = vi.fn()
+            .mockRejectedValueOnce(new Error('launch failed'))
+            .mockResolvedValue({ id: 2, healthy: true });
+        const pool = createPool({ size: 1, create, destroy: async () => undefined });
+
+        await expect(pool.use(async () => 'never')).rejects.toThrow('launch failed');
+        expect(await pool.use(async (resource: Resource) => resource.id)).toBe(2);
+    });
+
+    it('should destroy everything on close and reject later tasks', async () => {
+        const { pool, destroy } = setup(2);
+        const task = deferred();
+
+        await pool.use(async () => undefined);
+        const running = pool.use(async () => task.done);
+        await pool.close();
+
+        expect(destroy).toHaveBeenCalledTimes(0);
+        task.finish();
+        await running;
+        expect(destroy).toHaveBeenCalledTimes(1);
+        await expect(pool.use(async () => undefined)).rejects.toThrow('Pool is closed');
+    });
+
+    it('should reject invalid sizes', () => {
+        expect(() => createPool({ size: 0, create: async () => 1, destroy: async () => undefined })).toThrow('positive integer');
+    });
+});
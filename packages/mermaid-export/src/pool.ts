@@ -0,0 +1,88 @@
+/**
+ * Options for a resource pool
+ */
+export interface PoolOptions<T> {
+    /** Most resources alive (and tasks running) at once */
+    size: number;
+    /** Creates a resource when none is idle and the pool isn't full */
+    create: () => Promise<T>;
+    /** Disposes of a resource when it is unhealthy or the pool closes */
+    destroy: (resource: T) => Promise<void>;
+    /** Checked after each task; unhealthy resources are destroyed instead of reused (default: always healthy) */
+    isHealthy?: (resource: T) => boolean;
+}
+
+export interface Pool<T> {
+    /** Runs a task with a resource, waiting for one to free up if the pool is full */
+    use<R>(task: (resource: T) => Promise<R>): Promise<R>;
+    /** Destroys every idle resource; resources in use are destroyed when released */
+    close(): Promise<void>;
+}
+
+/**
+ * Create a pool that lazily creates up to `size` resources and reuses them
+ * across tasks, so expensive setup happens once per resource.
+ */
+export function createPool<T>(options: PoolOptions<T>): Pool<T> {
+    const { size, create, destroy, isHealthy = () => true } = options;
+    if (!Number.isInteger(size) || size < 1) {
+        throw new Error(`Pool size must be a positive integer, got ${size}`);
+    }
+
+    const idle: T[] = [];
+    const waiting: Array<() => void> = [];
+    let active = 0;
+    let closed = false;
+
+    async function acquire(): Promise<T> {
+        while (!closed && active >= size) {
+            await new Promise<void>(resolve => waiting.push(resolve));
+        }
+        if (closed) {
+            throw new Error('Pool is closed');
+        }
+        active++;
+        const resource = idle.pop();
+        if (resource !== undefined) {
+            return resource;
+        }
+        try {
+            return await create();
+        } catch (error) {
+            active--;
+            waiting.shift()?.();
+            throw error;
+        }
+    }
+
+    async function release(resource: T): Promise<void> {
+        try {
+            if (closed || !isHealthy(resource)) {
+                // A failed cleanup shouldn't replace the task's own result
+                await destroy(resource).catch(() => undefined);
+            } else {
+                idle.push(resource);
+            }
+        } finally {
+            active--;
+            waiting.shift()?.();
+        }
+    }
+
+    return {
+        async use<R>(task: (resource: T) => Promise<R>): Promise<R> {
+            const resource = await acquire();
+            try {
+                return await task(resource);
+            } finally {
+                await release(resource);
+            }
+        },
+
+        async close(): Promise<void> {
+            closed = true;
+            waiting.splice(0).forEach(resolve => resolve());
+            await Promise.all(idle.splice(0).map(destroy));
+        },
+    };
+}
@@ -0,0 +1,61 @@
+import type { Browser, Page } from 'puppeteer';
+import { missingPackage } from './backend.js';
+import type { BackendOptions, RenderBackend, RenderPage } from './types.js';
+
+/** Flags that let Chromium run in containers and CI */
+const DEFAULT_ARGS = ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'];
+
+function puppeteerPage(page: Page): RenderPage {
+    return {
+        async setContent(html, timeout) {
+            await page.setContent(html, { waitUntil: 'networkidle0', timeout });
+        },
+        // Arguments are plain data, so the handle unwrapping in Puppeteer's types doesn't apply
+        evaluate: (fn, arg) => page.evaluate(fn as (arg: unknown) => ReturnType<typeof fn>, arg),
+        async waitForFunction(fn, timeout) {
+            await page.waitForFunction(fn, { timeout });
+        },
+        async screenshot({ type, clip, omitBackground }) {
+            return Buffer.from(await page.screenshot({ type, clip, omitBackground }));
+        },
+        async pdf() {
+            return Buffer.from(await page.pdf({ preferCSSPageSize: true, printBackground: true }));
+        },
+        close: () => page.close(),
+        isClosed: () => page.isClosed(),
+    };
+}
+
+/**
+ * Launch Chromium with Puppeteer, or connect to the browser at `browserWSEndpoint`
+ */
+export async function launchPuppeteer(options: BackendOptions = {}): Promise<RenderBackend> {
+    let puppeteer: typeof import('puppeteer').default;
+    try {
+        ({ default: puppeteer } = await import('puppeteer'));
+    } catch (error) {
+        throw missingPackage('puppeteer', error);
+    }
+
+    const { browserWSEndpoint, launchOptions = {} } = options;
+    const browser: Browser = browserWSEndpoint
+        ? await puppeteer.connect({ browserWSEndpoint })
+        : await puppeteer.launch({
+            headless: true,
+            ...launchOptions,
+            args: [...DEFAULT_ARGS, ...(launchOptions.args ?? [])],
+        });
+
+    return {
+        async newPage(viewport) {
+            const page = await browser.newPage();
+            if (viewport) {
+                await page.setViewport(viewport);
+            }
+            return puppeteerPage(page);
+        },
+        isConnected: () => browser.connected,
+        // Leave a browser we connected to running for its other clients
+        close: () => (browserWSEndpoint ? browser.disconnect() : browser.close()),
+    };
+}
@@ -1,44 +1,128 @@
-import puppeteer, { type Browser } from 'puppeteer';
-import type { RasterExportOptions, SvgExportOptions } from './types.js';
+import { backendKey, launchBackend } from './backend.js';
+import { mermaidInitConfig, pageSetup, scriptJson } from './config.js';
+import { createSyntaxError, toMermaidError, type MermaidErrorDetails } from './errors.js';
+import { mermaidScriptTags, resolveMermaidScript, type MermaidScript } from './mermaid-source.js';
+import { layoutPdfPage, pdfPageStyles } from './pdf.js';
+import { processSvg } from './svg.js';
+import type {
+    BackendOptions,
+    ExportOptions,
+    MermaidConfig,
+    PdfExportOptions,
+    RasterExportOptions,
+    RenderBackend,
+    RenderOptions,
+    RenderPage,
+    SvgExportOptions,
+    ValidationResult
+} from './types.js';
 
-/** Mermaid CDN URL for rendering */
-const MERMAID_CDN = 'https://cdn.jsdelivr.net/npm/mermaid@11/dist/mermaid.esm.min.mjs';
+/** Default time allowed for Mermaid to load and render */
+const DEFAULT_TIMEOUT = 30000;
 
-/** Browser instance for reuse */
-let browserInstance: Browser | null = null;
+/** Backends launched for reuse, keyed by their options */
+const backends = new Map<string, Promise<RenderBackend>>();
+
+/** Warm pages used by validateDiagram, keyed by backend and Mermaid script */
+const validationPages = new Map<string, Promise<RenderPage>>();
 
 /**
- * Get or create a shared browser instance
+ * Drop a cached backend, unless it was already replaced by a newer one
  */
-async function getBrowser(): Promise<Browser> {
-    if (!browserInstance || !browserInstance.connected) {
-        browserInstance = await puppeteer.launch({
-            headless: true,
-            args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
-        });
+function forgetBackend(key: string, backend: Promise<RenderBackend>): void {
+    if (backends.get(key) === backend) {
+        backends.delete(key);
     }
-    return browserInstance;
 }
 
 /**
- * Close the shared browser instance
+ * Get the shared backend for `options`, launching it on first use or after
+ * its browser went away
  */
-export async function closeBrowser(): Promise<void> {
-    if (browserInstance && browserInstance.connected) {
-        await browserInstance.close();
-        browserInstance = null;
+async function getBackend(options: BackendOptions): Promise<RenderBackend> {
+    if (typeof options.backend === 'object') {
+        return options.backend;
+    }
+    const key = backendKey(options);
+    let backend = backends.get(key);
+    if (!backend) {
+        const launching = launchBackend(options);
+        backends.set(key, launching);
+        // Let the next call retry instead of caching a failed launch
+        launching.catch(() => forgetBackend(key, launching));
+        backend = launching;
+    }
+
+    const launched = await backend;
+    if (!launched.isConnected()) {
+        forgetBackend(key, backend);
+        return getBackend(options);
     }
+    return launched;
+}
+
+/**
+ * Close the browsers launched for rendering. Backends passed in as objects
+ * are left open for their owner to close.
+ */
+export async function closeBrowser(): Promise<void> {
+    const pages = [...validationPages.values()];
+    const launched = [...backends.values()];
+    validationPages.clear();
+    backends.clear();
+
+    await Promise.all(pages.map(async page => {
+        const opened = await page.catch(() => null);
+        if (opened && !opened.isClosed()) {
+            await opened.close();
+        }
+    }));
+    await Promise.all(launched.map(async backend => {
+        const started = await backend.catch(() => null);
+        if (started?.isConnected()) {
+            await started.close();
+        }
+    }));
 }
 
 /**
- * Generate HTML template for rendering Mermaid diagram
+ * Browser-side helper turning a thrown Mermaid error into MermaidErrorDetails.
+ * mermaid.run wraps parser errors as { error, message, str, hash }; Jison
+ * parser errors carry their position and expected tokens in `hash`.
+ */
+const DESCRIBE_ERROR = `function describeError(err, source) {
+            const cause = err && err.error instanceof Error ? err.error : err;
+            const hash = cause && typeof cause.hash === 'object' && cause.hash ? cause.hash : {};
+            let diagramType;
+            try {
+                diagramType = mermaid.detectType(source);
+            } catch {
+                diagramType = undefined;
+            }
+            return {
+                message: cause instanceof Error ? cause.message : String((err && err.message) || err),
+                line: hash.loc ? hash.loc.first_line : undefined,
+                column: hash.loc ? hash.loc.first_column + 1 : undefined,
+                expected: Array.isArray(hash.expected) ? hash.expected : undefined,
+                diagramType
+            };
+        }`;
+
+/** Options that shape how Mermaid renders on a page */
+type PageOptions = Pick<ExportOptions, 'theme' | 'mermaidConfig' | 'fonts' | 'iconPacks'>;
+
+/**
+ * Generate HTML template for rendering Mermaid diagrams
  */
-function generateHtml(diagram: string, theme: string, backgroundColor: string): string {
+function generateHtml(diagrams: string[], options: PageOptions, backgroundColor: string, script: MermaidScript): string {
+    const { head, importStatement } = mermaidScriptTags(script);
+    const config = mermaidInitConfig(options);
+    const { head: setupHead, setup } = pageSetup(options);
     return `<!DOCTYPE html>
 <html>
 <head>
     <meta charset="UTF-8">
-    <style>
+    <style id="layout">
         body {
             margin: 0;
             padding: 20px;
@@ -51,25 +135,38 @@ function generateHtml(diagram: string, theme: string, backgroundColor: string):
             display: inline-block;
         }
     </style>
+    ${setupHead}
+    ${head}
 </head>
 <body>
     <div id="container">
-        <pre class="mermaid">${escapeHtml(diagram)}</pre>
+        ${diagrams.map(diagram => `<pre class="mermaid">${escapeHtml(diagram)}</pre>`).join('\n        ')}
     </div>
     <script type="module">
-        import mermaid from '${MERMAID_CDN}';
-        mermaid.initialize({
-            startOnLoad: true,
-            theme: '${theme}',
-            securityLevel: 'loose'
-        });
-        
-        // Signal when rendering is complete
-        mermaid.run().then(() => {
+        ${importStatement}
+        ${DESCRIBE_ERROR}
+        mermaid.initialize(${scriptJson(config)});
+
+        // Render one diagram at a time so a failure can be traced to its source,
+        // then signal when rendering is complete
+        (async () => {
+            try {
+                ${setup}
+            } catch (err) {
+                window.mermaidError = { message: err instanceof Error ? err.message : String(err) };
+                return;
+            }
+            for (const node of document.querySelectorAll('.mermaid')) {
+                const source = node.textContent;
+                try {
+                    await mermaid.run({ nodes: [node] });
+                } catch (err) {
+                    window.mermaidError = describeError(err, source);
+                    return;
+                }
+            }
             window.mermaidRendered = true;
-        }).catch(err => {
-            window.mermaidError = err.message;
-        });
+        })();
     </script>
 </body>
 </html>`;
@@ -87,6 +184,99 @@ function escapeHtml(str: string): string {
         .replace(/'/g, '&#039;');
 }
 
+/**
+ * Rethrow backend timeouts with a message saying what took too long
+ */
+function timeoutError(error: unknown, timeout: number): unknown {
+    return error instanceof Error && error.name === 'TimeoutError'
+        ? new Error(`Mermaid rendering timed out after ${timeout}ms`, { cause: error })
+        : error;
+}
+
+/**
+ * Load a page's HTML, waiting at most `timeout` ms
+ */
+async function loadPage(page: RenderPage, html: string, timeout: number): Promise<void> {
+    try {
+        await page.setContent(html, timeout);
+    } catch (error) {
+        throw timeoutError(error, timeout);
+    }
+}
+
+/**
+ * Wait for Mermaid to finish rendering the page, throwing its error if it failed
+ */
+async function waitForMermaid(page: RenderPage, timeout: number): Promise<void> {
+    try {
+        await page.waitForFunction(
+            () => window.mermaidRendered === true || window.mermaidError !== undefined,
+            timeout
+        );
+    } catch (error) {
+        throw timeoutError(error, timeout);
+    }
+
+    const error = await page.evaluate(() => window.mermaidError);
+    if (error) {
+        throw toMermaidError(error, 'Mermaid rendering failed');
+    }
+}
+
+/**
+ * Run a call on a warm page, closing the page if it takes longer than
+ * `timeout` ms so it isn't reused while Mermaid is still busy
+ */
+async function withTimeout<T>(page: RenderPage, timeout: number, task: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            page.close().catch(() => undefined);
+            reject(new Error(`Mermaid rendering timed out after ${timeout}ms`));
+        }, timeout);
+    });
+    try {
+        return await Promise.race([task, expired]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Screenshot the rendered diagram in #container
+ */
+async function screenshotDiagram(
+    page: RenderPage,
+    format: 'png' | 'jpeg' | 'webp',
+    options: { width?: number; height?: number; backgroundColor: string }
+): Promise<Buffer> {
+    const { width, height, backgroundColor } = options;
+
+    // Get the bounding box of the rendered diagram
+    const boundingBox = await page.evaluate(() => {
+        const container = document.querySelector('#container');
+        if (!container) return null;
+        const rect = container.getBoundingClientRect();
+        return { x: rect.x, y: rect.y, width: rect.width, height: rect.height };
+    });
+
+    if (!boundingBox) {
+        throw new Error('Failed to get diagram bounding box');
+    }
+
+    // Take screenshot of just the diagram
+    return page.screenshot({
+        type: format,
+        clip: {
+            x: boundingBox.x,
+            y: boundingBox.y,
+            width: width || boundingBox.width,
+            height: height || boundingBox.height,
+        },
+        omitBackground: backgroundColor === 'transparent',
+    });
+}
+
 /**
  * Render a Mermaid diagram and return SVG string
  */
@@ -94,37 +284,28 @@ export async function renderToSvg(
     diagram: string,
     options: SvgExportOptions = {}
 ): Promise<string> {
-    const { backgroundColor = 'transparent', theme = 'default' } = options;
+    const { backgroundColor = 'transparent', timeout = DEFAULT_TIMEOUT } = options;
+    const script = resolveMermaidScript(options);
 
-    const browser = await getBrowser();
-    const page = await browser.newPage();
+    const backend = await getBackend(options);
+    const page = await backend.newPage();
 
     try {
-        const html = generateHtml(diagram, theme, backgroundColor);
-        await page.setContent(html, { waitUntil: 'networkidle0' });
-
-        // Wait for Mermaid to render
-        await page.waitForFunction(
-            () => window.mermaidRendered === true || window.mermaidError !== undefined,
-            { timeout: 30000 }
-        );
+        const html = generateHtml([diagram], options, backgroundColor, script);
+        await loadPage(page, html, timeout);
 
-        // Check for errors
-        const error = await page.evaluate(() => window.mermaidError);
-        if (error) {
-            throw new Error(`Mermaid rendering failed: ${error}`);
-        }
+        await waitForMermaid(page, timeout);
 
-        // Extract SVG
+        // Extract SVG as XML, so HTML labels are well-formed in a standalone file
         const svg = await page.evaluate(() => {
             const svgElement = document.querySelector('.mermaid svg');
             if (!svgElement) {
                 throw new Error('SVG element not found');
             }
-            return svgElement.outerHTML;
+            return new XMLSerializer().serializeToString(svgElement);
         });
 
-        return svg;
+        return await processSvg(svg, options);
     } finally {
         await page.close();
     }
@@ -142,70 +323,278 @@ export async function renderToBuffer(
         width,
         height,
         backgroundColor = 'white',
-        theme = 'default',
         scale = 1,
+        timeout = DEFAULT_TIMEOUT,
     } = options;
+    const script = resolveMermaidScript(options);
 
-    const browser = await getBrowser();
-    const page = await browser.newPage();
+    const backend = await getBackend(options);
+    // Fixed viewport for consistent rendering
+    const page = await backend.newPage({
+        width: width || 1920,
+        height: height || 1080,
+        deviceScaleFactor: scale,
+    });
 
     try {
-        // Set viewport for consistent rendering
-        await page.setViewport({
-            width: width || 1920,
-            height: height || 1080,
-            deviceScaleFactor: scale,
-        });
+        const html = generateHtml([diagram], options, backgroundColor, script);
+        await loadPage(page, html, timeout);
 
-        const html = generateHtml(diagram, theme, backgroundColor);
-        await page.setContent(html, { waitUntil: 'networkidle0' });
+        await waitForMermaid(page, timeout);
 
-        // Wait for Mermaid to render
-        await page.waitForFunction(
-            () => window.mermaidRendered === true || window.mermaidError !== undefined,
-            { timeout: 30000 }
-        );
+        return await screenshotDiagram(page, format, { width, height, backgroundColor });
+    } finally {
+        await page.close();
+    }
+}
 
-        // Check for errors
-        const error = await page.evaluate(() => window.mermaidError);
-        if (error) {
-            throw new Error(`Mermaid rendering failed: ${error}`);
-        }
+/**
+ * Render Mermaid diagrams to a vector PDF with one diagram per page
+ */
+export async function renderToPdf(
+    diagrams: string[],
+    options: PdfExportOptions = {}
+): Promise<Buffer> {
+    const { backgroundColor = 'white', timeout = DEFAULT_TIMEOUT } = options;
+    const script = resolveMermaidScript(options);
+    if (diagrams.length === 0) {
+        throw new Error('No diagrams to export');
+    }
 
-        // Get the bounding box of the rendered diagram
-        const boundingBox = await page.evaluate(() => {
-            const container = document.querySelector('#container');
-            if (!container) return null;
-            const rect = container.getBoundingClientRect();
-            return { x: rect.x, y: rect.y, width: rect.width, height: rect.height };
-        });
+    const backend = await getBackend(options);
+    const page = await backend.newPage();
+
+    try {
+        // Rendering every diagram in one document keeps Mermaid's element ids unique
+        const html = generateHtml(diagrams, options, backgroundColor, script);
+        await loadPage(page, html, timeout);
+        await waitForMermaid(page, timeout);
 
-        if (!boundingBox) {
-            throw new Error('Failed to get diagram bounding box');
+        const sizes = await page.evaluate(() =>
+            Array.from(document.querySelectorAll('.mermaid svg'), svg => {
+                const rect = svg.getBoundingClientRect();
+                return { width: rect.width, height: rect.height };
+            })
+        );
+        if (sizes.length !== diagrams.length) {
+            throw new Error('SVG element not found');
         }
 
-        // Take screenshot of just the diagram
-        const screenshot = await page.screenshot({
-            type: format,
-            clip: {
-                x: boundingBox.x,
-                y: boundingBox.y,
-                width: width || boundingBox.width,
-                height: height || boundingBox.height,
-            },
-            omitBackground: backgroundColor === 'transparent',
-        });
+        // Move each SVG onto its own page
+        const styles = pdfPageStyles(sizes.map(size => layoutPdfPage(size, options)), backgroundColor);
+        await page.evaluate(css => {
+            const svgs = Array.from(document.querySelectorAll('.mermaid svg'));
+            const style = document.createElement('style');
+            style.textContent = css;
+            document.getElementById('layout')?.remove();
+            document.head.appendChild(style);
+            document.body.replaceChildren(...svgs.map((svg, index) => {
+                const container = document.createElement('div');
+                container.className = `pdf-page pdf-page-${index}`;
+                container.appendChild(svg);
+                return container;
+            }));
+        }, styles);
 
-        return Buffer.from(screenshot);
+        return await page.pdf();
     } finally {
         await page.close();
     }
 }
 
+/**
+ * Generate HTML for a page that loads Mermaid, fonts and icon packs once and
+ * then renders diagrams on demand through `window.renderMermaid`
+ */
+function generateWarmHtml(script: MermaidScript, options: PageOptions): string {
+    const { head, importStatement } = mermaidScriptTags(script);
+    const { head: setupHead, setup } = pageSetup(options);
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <style>
+        body {
+            margin: 0;
+            padding: 20px;
+            display: flex;
+            justify-content: center;
+            align-items: flex-start;
+        }
+        #container {
+            display: inline-block;
+        }
+    </style>
+    ${setupHead}
+    ${head}
+</head>
+<body>
+    <div id="container"></div>
+    <script type="module">
+        ${importStatement}
+        ${DESCRIBE_ERROR}
+        let count = 0;
+        const ready = (async () => {
+            ${setup}
+        })();
+
+        // Resolves with the error details, or null once the SVG is in #container
+        window.renderMermaid = async (diagram, config, backgroundColor) => {
+            const container = document.getElementById('container');
+            container.replaceChildren();
+            document.body.style.backgroundColor = backgroundColor;
+            try {
+                await ready;
+                mermaid.initialize(config);
+                const { svg, bindFunctions } = await mermaid.render(\`mermaid-\${count++}\`, diagram);
+                container.innerHTML = svg;
+                bindFunctions?.(container);
+                return null;
+            } catch (err) {
+                return describeError(err, diagram);
+            }
+        };
+
+        // Runs only the parser
+        window.validateMermaid = async (diagram, config) => {
+            try {
+                mermaid.initialize(config);
+                const result = await mermaid.parse(diagram);
+                const diagramType = (result && result.diagramType) || mermaid.detectType(diagram);
+                return { diagramType, error: null };
+            } catch (err) {
+                const error = describeError(err, diagram);
+                return { diagramType: error.diagramType, error };
+            }
+        };
+    </script>
+</body>
+</html>`;
+}
+
+/**
+ * Open a page on the shared backend with Mermaid loaded and ready to render,
+ * so a batch of diagrams pays for loading Mermaid once per page
+ */
+export async function openWarmPage(
+    script: MermaidScript,
+    options: Omit<ExportOptions, 'format'> = {}
+): Promise<RenderPage> {
+    const { width, height, scale = 1, timeout = DEFAULT_TIMEOUT } = options;
+    const backend = await getBackend(options);
+    const page = await backend.newPage({
+        width: width || 1920,
+        height: height || 1080,
+        deviceScaleFactor: scale,
+    });
+
+    try {
+        await loadPage(page, generateWarmHtml(script, options), timeout);
+        await page.waitForFunction(() => typeof window.renderMermaid === 'function', timeout);
+        return page;
+    } catch (error) {
+        await page.close();
+        throw timeoutError(error, timeout);
+    }
+}
+
+/**
+ * Render a diagram on a page opened with `openWarmPage`, which sets the
+ * viewport from the same options
+ */
+export async function renderOnWarmPage(
+    page: RenderPage,
+    diagram: string,
+    format: 'svg' | 'png' | 'jpeg' | 'webp',
+    options: Omit<ExportOptions, 'format'> = {}
+): Promise<Buffer | string> {
+    const {
+        width,
+        height,
+        backgroundColor = format === 'svg' ? 'transparent' : 'white',
+        timeout = DEFAULT_TIMEOUT,
+    } = options;
+
+    const error = await withTimeout(page, timeout, page.evaluate(
+        ({ source, config, background }) => window.renderMermaid!(source, config, background),
+        { source: diagram, config: mermaidInitConfig(options), background: backgroundColor }
+    ));
+    if (error) {
+        throw toMermaidError(error, 'Mermaid rendering failed');
+    }
+
+    if (format !== 'svg') {
+        return screenshotDiagram(page, format, { width, height, backgroundColor });
+    }
+
+    const svg = await page.evaluate(() => {
+        const svgElement = document.querySelector('#container svg');
+        if (!svgElement) {
+            throw new Error('SVG element not found');
+        }
+        return new XMLSerializer().serializeToString(svgElement);
+    });
+    return processSvg(svg, { ...options, backgroundColor });
+}
+
+/**
+ * Identifies a validation page by its backend and its Mermaid script's URL
+ * or bundle contents
+ */
+function validationKey(script: MermaidScript, options: BackendOptions): string {
+    return `${backendKey(options)}\n${script.type === 'module' ? script.url : script.content}`;
+}
+
+/**
+ * Get the warm page used to validate diagrams with a Mermaid script,
+ * opening it on first use
+ */
+function getValidationPage(script: MermaidScript, options: RenderOptions): Promise<RenderPage> {
+    const { timeout, backend, browserWSEndpoint, launchOptions } = options;
+    const key = validationKey(script, options);
+    let page = validationPages.get(key);
+    if (!page) {
+        page = openWarmPage(script, { timeout, backend, browserWSEndpoint, launchOptions });
+        validationPages.set(key, page);
+        // Let the next call retry instead of caching a page that failed to open
+        page.catch(() => validationPages.delete(key));
+    }
+    return page;
+}
+
+/**
+ * Check a diagram with Mermaid's parser without rendering it
+ */
+export async function parseDiagram(
+    diagram: string,
+    options: RenderOptions = {}
+): Promise<ValidationResult> {
+    const { timeout = DEFAULT_TIMEOUT } = options;
+    const script = resolveMermaidScript(options);
+
+    let page = await getValidationPage(script, options);
+    if (page.isClosed()) {
+        // Closed after a timeout or crash
+        validationPages.delete(validationKey(script, options));
+        page = await getValidationPage(script, options);
+    }
+
+    const { diagramType, error } = await withTimeout(page, timeout, page.evaluate(
+        ({ source, config }) => window.validateMermaid!(source, config),
+        { source: diagram, config: mermaidInitConfig(options) }
+    ));
+    if (error) {
+        return { valid: false, diagramType, error: createSyntaxError(error, 'Invalid Mermaid diagram') };
+    }
+    return { valid: true, diagramType: diagramType! };
+}
+
 // Extend Window interface for TypeScript
 declare global {
     interface Window {
         mermaidRendered?: boolean;
-        mermaidError?: string;
+        mermaidError?: MermaidErrorDetails;
+        renderMermaid?: (diagram: string, config: MermaidConfig, backgroundColor: string) => Promise<MermaidErrorDetails | null>;
+        validateMermaid?: (diagram: string, config: MermaidConfig) => Promise<{ diagramType?: string; error: MermaidErrorDetails | null }>;
     }
 }
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { addSvgBackground, embedSvgFonts, minifySvg, prefixSvg, processSvg, sanitizeSvg } from './svg.js';
+
+const DIAGRAM = [
+    '<svg id="mermaid-0" viewBox="-8 -8 200 120" aria-labelledby="chart-title-mermaid-0" xmlns="http://www.w3.org/2000/svg">',
+    '<title id="chart-title-mermaid-0">Chart</title>',
+    '<style>#mermaid-0 .node rect{fill:#eee;}#mermaid-0 .nodeLabel{color:#333;}</style>',
+    '<defs><marker id="arrow"><path d="M0,0"/></marker></defs>',
+    '<g class="node default" id="flowchart-A-0"><rect/></g>',
+    '<path marker-end="url(#arrow)" style="stroke: url(#arrow)"/>',
+    '<use href="#flowchart-A-0" xlink:href="#elsewhere"/>',
+    '<span class="nodeLabel">A</span>',
+    '</svg>',
+].join('');
+
+describe('sanitizeSvg', () => {
+    it('should remove scripts, event handlers and javascript links', () => {
+        const svg = '<svg onload="alert(1)"><script>alert(2)</script><script href="x.js"/>'
+            + '<a href="javascript:alert(3)" onClick=\'go()\'><g onmouseover=hover()><text>hi</text></g></a></svg>';
+
+        expect(sanitizeSvg(svg)).toBe('<svg><a><g><text>hi</text></g></a></svg>');
+    });
+
+    it('should remove script URLs hidden with character references, whitespace and control characters', () => {
+        const svg = '<svg><a href="java&#x9;script:alert(1)"><text>tab</text></a>'
+            + '<a xlink:href=" &#106;ava&#x0A;script&colon;alert(2)"><text>encoded</text></a>'
+            + '<image src="VBScript:msgbox(3)"/><a href="java\u0000script:alert(4)"/></svg>';
+
+        expect(sanitizeSvg(svg)).toBe('<svg><a><text>tab</text></a><a><text>encoded</text></a><image/><a/></svg>');
+    });
+
+    it('should only allow image data URLs', () => {
+        const svg = '<svg><image href="data:image/png;base64,AAAA"/><a href="data:text/html,&lt;script&gt;alert(1)&lt;/script&gt;"/></svg>';
+
+        expect(sanitizeSvg(svg)).toBe('<svg><image href="data:image/png;base64,AAAA"/><a/></svg>');
+    });
+
+    it('should remove embedded documents and animations that set links', () => {
+        const svg = '<svg><foreignObject><iframe src="https://example.com"><p>frame</p></iframe><object data="x.swf"/>'
+            + '<embed src="x.swf"></embed></foreignObject>'
+            + '<a href="#"><set attributeName="href" to="javascript:alert(1)"/><animate attributeName="xlink:href" values="javascript:alert(2)"></animate>'
+            + '<animate attributeName="opacity" values="0;1"/></a></svg>';
+
+        expect(sanitizeSvg(svg)).toBe('<svg><foreignObject></foreignObject><a href="#"><animate attributeName="opacity" values="0;1"/></a></svg>');
+    });
+
+    it('should not be misled by quoted angle brackets, slash separators or markup inside scripts', () => {
+        const svg = '<svg><g title="a > b" onclick="x()"><text>q</text></g><g/onload=alert(1)></g>'
+            + '<svg:script>if (a <b) { alert(1) }</svg:script><style>.a > .b { fill: red }</style></svg>';
+
+        expect(sanitizeSvg(svg)).toBe('<svg><g title="a > b"><text>q</text></g><g></g><style>.a > .b { fill: red }</style></svg>');
+    });
+
+    it('should keep ordinary links and attributes', () => {
+        const svg = '<svg><a href="https://example.com" data-one="1"><text>one</text></a><!-- <script> --></svg>';
+
+        expect(sanitizeSvg(svg)).toBe(svg);
+    });
+});
+
+describe('prefixSvg', () => {
+    it('should prefix ids, classes and references to them', () => {
+        const svg = prefixSvg(DIAGRAM, 'd1-');
+
+        expect(svg).toContain('<svg id="d1-mermaid-0" viewBox="-8 -8 200 120" aria-labelledby="d1-chart-title-mermaid-0"');
+        expect(svg).toContain('<g class="d1-node d1-default" id="d1-flowchart-A-0">');
+        expect(svg).toContain('<path marker-end="url(#d1-arrow)" style="stroke: url(#d1-arrow)"/>');
+        expect(svg).toContain('<span class="d1-nodeLabel">');
+    });
+
+    it('should only prefix references to ids defined in the SVG', () => {
+        expect(prefixSvg(DIAGRAM, 'd1-')).toContain('<use href="#d1-flowchart-A-0" xlink:href="#elsewhere"/>');
+    });
+
+    it('should prefix selectors in styles without matching partial names', () => {
+        const svg = prefixSvg(DIAGRAM, 'd1-');
+
+        expect(svg).toContain('<style>#d1-mermaid-0 .d1-node rect{fill:#eee;}#d1-mermaid-0 .d1-nodeLabel{color:#333;}</style>');
+    });
+});
+
+describe('addSvgBackground', () => {
+    it('should insert a rect covering the viewBox after the root element', () => {
+        expect(addSvgBackground('<svg viewBox="-8 -8 200 120"><g/></svg>', '#fff')).toBe(
+            '<svg viewBox="-8 -8 200 120"><rect x="-8" y="-8" width="200" height="120" fill="#fff" style="fill: #fff"/><g/></svg>'
+        );
+    });
+
+    it('should cover the whole SVG when there is no viewBox', () => {
+        expect(addSvgBackground('<svg><g/></svg>', 'white')).toContain('<rect x="0" y="0" width="100%" height="100%" fill="white"');
+    });
+});
+
+describe('minifySvg', () => {
+    it('should remove comments and whitespace between tags and in styles', () => {
+        const svg = '<svg>\n  <!-- comment -->\n  <style>\n    .node {\n      fill: red;\n      stroke: blue;\n    }\n  </style>\n  <g/>\n</svg>\n';
+
+        expect(minifySvg(svg)).toBe('<svg><style>.node{fill:red;stroke:blue}</style><g/></svg>');
+    });
+
+    it('should keep whitespace inside text', () => {
+        expect(minifySvg('<svg><text>a  b</text></svg>')).toBe('<svg><text>a  b</text></svg>');
+    });
+});
+
+describe('embedSvgFonts', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'mermaid-svg-'));
+        writeFileSync(join(dir, 'inter.woff2'), 'font-data');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should embed only the fonts the SVG uses', async () => {
+        const svg = await embedSvgFonts('<svg><style>svg{font-family:"Inter"}</style></svg>', [
+            { family: 'Inter', src: 'inter.woff2' },
+            { family: 'Fira Code', src: 'missing.woff2' },
+        ], dir);
+
+        const data = Buffer.from('font-data').toString('base64');
+        expect(svg).toContain(`<svg><style>@font-face {\n    font-family: "Inter";\n    src: url("data:font/woff2;base64,${data}");`);
+        expect(svg).not.toContain('Fira Code');
+    });
+
+    it('should leave the SVG unchanged when no font is used', async () => {
+        const svg = '<svg><text>hi</text></svg>';
+
+        expect(await embedSvgFonts(svg, [{ family: 'Inter', src: 'inter.woff2' }], dir)).toBe(svg);
+    });
+});
+
+describe('processSvg', () => {
+    it('should leave the SVG unchanged by default', async () => {
+        expect(await processSvg(DIAGRAM, {})).toBe(DIAGRAM);
+    });
+
+    it('should not paint transparent backgrounds', async () => {
+        expect(await processSvg(DIAGRAM, { backgroundColor: 'transparent' })).toBe(DIAGRAM);
+    });
+
+    it('should add the XML declaration', async () => {
+        expect(await processSvg('<svg/>', { xmlDeclaration: true })).toBe('<?xml version="1.0" encoding="UTF-8"?>\n<svg/>');
+        expect(await processSvg('<svg/>', { xmlDeclaration: true, minify: true })).toBe('<?xml version="1.0" encoding="UTF-8"?><svg/>');
+    });
+
+    it('should combine the options', async () => {
+        const svg = await processSvg('<svg id="a" viewBox="0 0 10 10" onload="x()">\n<g class="n"/>\n</svg>', {
+            backgroundColor: 'white',
+            prefix: 'p-',
+            sanitize: true,
+            minify: true,
+        });
+
+        expect(svg).toBe('<svg id="p-a" viewBox="0 0 10 10"><rect x="0" y="0" width="10" height="10" fill="white" style="fill: white"/><g class="p-n"/></svg>');
+    });
+});
@@ -0,0 +1,373 @@
+import { extname } from 'node:path';
+import { FONT_TYPES, fontFaceCss } from './config.js';
+import type { FontOptions, SvgOutputOptions } from './types.js';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+/** The root element's opening tag */
+const ROOT_TAG = /<svg\b[^>]*>/;
+
+/** Attributes whose value is a list of ids */
+const ID_LIST_ATTRIBUTES = new Set(['aria-labelledby', 'aria-describedby']);
+
+/**
+ * Apply `transform` to the text of every <style> element
+ */
+function mapStyles(svg: string, transform: (css: string) => string): string {
+    return svg.replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/g, (_, open: string, css: string, close: string) =>
+        open + transform(css) + close
+    );
+}
+
+/**
+ * Apply `transform` to every start tag, leaving text and styles alone
+ */
+function mapTags(svg: string, transform: (tag: string) => string): string {
+    return svg.replace(/<[a-zA-Z][^>]*>/g, transform);
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Elements removed together with their content */
+const UNSAFE_ELEMENTS = new Set(['script', 'iframe', 'frame', 'object', 'embed']);
+
+/** Elements whose content is text rather than markup */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+/** Attributes holding a URL that is followed or loaded */
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction']);
+
+/** Named character references that can spell out a URL scheme; letters have none */
+const SCHEME_ENTITIES: Record<string, string> = {
+    tab: '\t',
+    newline: '\n',
+    colon: ':',
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: '\u00a0',
+};
+
+const ATTRIBUTE = /[\s/]*([^\s/>][^\s=/>]*)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/y;
+const TAG_NAME = /[^\s/>]+/y;
+const TAG_END = /\s*(\/?)>/y;
+const END_TAG = /<\/([^\s/>]+)[^>]*>/y;
+
+interface Attribute {
+    /** Lower-cased name without its namespace prefix */
+    name: string;
+    value: string;
+    source: string;
+}
+
+/** A piece of markup: a start tag, an end tag, or anything copied as-is */
+type Markup =
+    | { type: 'start'; tagName: string; name: string; attributes: Attribute[]; selfClosing: boolean; end: number }
+    | { type: 'end'; name: string; end: number }
+    | { type: 'other'; end: number };
+
+function localName(name: string): string {
+    return name.slice(name.indexOf(':') + 1).toLowerCase();
+}
+
+/**
+ * Read the markup starting with the '<' at `start`. Unterminated markup runs
+ * to the end of the input.
+ */
+function readMarkup(svg: string, start: number): Markup {
+    const through = (terminator: string, from: number): Markup => {
+        const end = svg.indexOf(terminator, from);
+        return { type: 'other', end: end === -1 ? svg.length : end + terminator.length };
+    };
+    if (svg.startsWith('<!--', start)) return through('-->', start + 4);
+    if (svg.startsWith('<![CDATA[', start)) return through(']]>', start + 9);
+    if (svg[start + 1] === '!' || svg[start + 1] === '?') return through('>', start + 2);
+
+    if (svg[start + 1] === '/') {
+        END_TAG.lastIndex = start;
+        const match = END_TAG.exec(svg);
+        return match ? { type: 'end', name: localName(match[1]), end: END_TAG.lastIndex } : { type: 'other', end: svg.length };
+    }
+    if (!/[a-zA-Z]/.test(svg[start + 1] ?? '')) {
+        return { type: 'other', end: start + 1 };
+    }
+
+    TAG_NAME.lastIndex = start + 1;
+    const tagName = TAG_NAME.exec(svg)![0];
+    const name = localName(tagName);
+    let index = TAG_NAME.lastIndex;
+    const attributes: Attribute[] = [];
+    while (index < svg.length) {
+        TAG_END.lastIndex = index;
+        const end = TAG_END.exec(svg);
+        if (end) {
+            return { type: 'start', tagName, name, attributes, selfClosing: end[1] === '/', end: TAG_END.lastIndex };
+        }
+        ATTRIBUTE.lastIndex = index;
+        const attribute = ATTRIBUTE.exec(svg);
+        if (!attribute) break;
+        const [, attributeName, value = ''] = attribute;
+        attributes.push({
+            name: localName(attributeName),
+            value: /^["']/.test(value) ? value.slice(1, -1) : value,
+            source: attribute[0].replace(/^[\s/]+/, ''),
+        });
+        index = ATTRIBUTE.lastIndex;
+    }
+    return { type: 'other', end: svg.length };
+}
+
+/**
+ * Where the content of a raw text element starting at `from` ends, and where
+ * its end tag ends
+ */
+function findRawTextEnd(svg: string, from: number, name: string): { content: number; end: number } {
+    const close = new RegExp(`</(?:[^\\s/>:]+:)?${name}\\b[^>]*>`, 'gi');
+    close.lastIndex = from;
+    const match = close.exec(svg);
+    return match ? { content: match.index, end: close.lastIndex } : { content: svg.length, end: svg.length };
+}
+
+/**
+ * Decode character references the way a browser does before reading a URL
+ */
+function decodeEntities(value: string): string {
+    return value.replace(/&#x([0-9a-f]+);?|&#(\d+);?|&([a-z]+);/gi, (entity, hex?: string, decimal?: string, named?: string) => {
+        if (named) {
+            return SCHEME_ENTITIES[named.toLowerCase()] ?? entity;
+        }
+        const code = hex ? parseInt(hex, 16) : Number(decimal);
+        return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+    });
+}
+
+/**
+ * Whether a URL runs script or embeds a document: javascript:, vbscript:,
+ * and data: URLs other than images. Browsers ignore whitespace and control
+ * characters inside the scheme, so they are removed before comparing.
+ */
+function isUnsafeUrl(value: string): boolean {
+    const url = decodeEntities(value).replace(/[\u0000-\u0020\u007f]/g, '').toLowerCase();
+    return /^(?:javascript|vbscript):/.test(url) || (url.startsWith('data:') && !url.startsWith('data:image/'));
+}
+
+function isUnsafeElement(name: string, attributes: Attribute[]): boolean {
+    if (UNSAFE_ELEMENTS.has(name)) {
+        return true;
+    }
+    // Animations can set a link's href after sanitizing
+    return (name === 'set' || name === 'animate') && attributes.some(attribute =>
+        attribute.name === 'attributename' && localName(decodeEntities(attribute.value).trim()) === 'href'
+    );
+}
+
+function isUnsafeAttribute({ name, value }: Attribute): boolean {
+    return name.startsWith('on') || (URL_ATTRIBUTES.has(name) && isUnsafeUrl(value));
+}
+
+/**
+ * Remove scripts, embedded documents, event handler attributes, and links to
+ * javascript:, vbscript: and non-image data: URLs. The markup is tokenized,
+ * so quoted '>' and '/'-separated attributes can't hide anything, and URLs
+ * are compared after decoding character references.
+ */
+export function sanitizeSvg(svg: string): string {
+    let output = '';
+    let index = 0;
+    // Depth inside a removed element
+    let removing = 0;
+
+    while (index < svg.length) {
+        const open = svg.indexOf('<', index);
+        if (open === -1) {
+            if (removing === 0) output += svg.slice(index);
+            break;
+        }
+        if (removing === 0) output += svg.slice(index, open);
+
+        const markup = readMarkup(svg, open);
+        index = markup.end;
+        if (markup.type === 'end') {
+            if (removing > 0) removing--;
+            else output += svg.slice(open, markup.end);
+            continue;
+        }
+        if (markup.type === 'other') {
+            if (removing === 0) output += svg.slice(open, markup.end);
+            continue;
+        }
+
+        const { tagName, name, attributes, selfClosing } = markup;
+        const rawText = RAW_TEXT_ELEMENTS.has(name) && !selfClosing;
+        if (removing > 0 || isUnsafeElement(name, attributes)) {
+            if (rawText) {
+                // Skip the content and the end tag, so a '<' inside a script can't start markup
+                index = findRawTextEnd(svg, index, name).end;
+            } else if (!selfClosing) {
+                removing++;
+            }
+            continue;
+        }
+
+        const kept = attributes.filter(attribute => !isUnsafeAttribute(attribute));
+        output += kept.length === attributes.length
+            ? svg.slice(open, markup.end)
+            : `<${tagName}${kept.map(attribute => ` ${attribute.source}`).join('')}${selfClosing ? '/>' : '>'}`;
+
+        if (rawText) {
+            // Copy style text as-is; its end tag is read next
+            const { content } = findRawTextEnd(svg, index, name);
+            output += svg.slice(index, content);
+            index = content;
+        }
+    }
+    return output;
+}
+
+/**
+ * Prefix every id and class, and the references to them in attributes and
+ * styles, so diagrams don't collide when several are inlined in one page
+ */
+export function prefixSvg(svg: string, prefix: string): string {
+    const ids = new Set(Array.from(svg.matchAll(/<[^>]*?\sid="([^"]+)"/g), match => match[1]));
+    const classes = new Set(Array.from(svg.matchAll(/<[^>]*?\sclass="([^"]*)"/g), match => match[1].split(/\s+/)).flat().filter(Boolean));
+    const prefixId = (id: string) => (ids.has(id) ? prefix + id : id);
+
+    const withTags = mapTags(svg, tag => tag.replace(/(\s)([\w:-]+)="([^"]*)"/g, (attribute, space: string, name: string, value: string) => {
+        let updated: string;
+        if (name === 'id') {
+            updated = prefixId(value);
+        } else if (name === 'class') {
+            updated = value.split(/(\s+)/).map(token => (classes.has(token) ? prefix + token : token)).join('');
+        } else if (ID_LIST_ATTRIBUTES.has(name)) {
+            updated = value.split(/(\s+)/).map(prefixId).join('');
+        } else if ((name === 'href' || name === 'xlink:href') && value.startsWith('#')) {
+            updated = `#${prefixId(value.slice(1))}`;
+        } else {
+            updated = value.replace(/url\(\s*(['"]?)#([^'")]+)\1\s*\)/g, (_, quote: string, id: string) =>
+                `url(${quote}#${prefixId(id)}${quote})`
+            );
+        }
+        return updated === value ? attribute : `${space}${name}="${updated}"`;
+    }));
+
+    if (ids.size === 0 && classes.size === 0) {
+        return withTags;
+    }
+    // Longest names first, so "node" doesn't match the start of "nodeLabel"
+    const alternation = (names: Set<string>) => [...names].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+    const idSelector = ids.size > 0 ? new RegExp(`#(${alternation(ids)})(?![\\w-])`, 'g') : null;
+    const classSelector = classes.size > 0 ? new RegExp(`\\.(${alternation(classes)})(?![\\w-])`, 'g') : null;
+
+    return mapStyles(withTags, css => {
+        let updated = css;
+        if (idSelector) updated = updated.replace(idSelector, (_, id: string) => `#${prefix}${id}`);
+        if (classSelector) updated = updated.replace(classSelector, (_, name: string) => `.${prefix}${name}`);
+        return updated;
+    });
+}
+
+/**
+ * Paint `color` behind the diagram with a rect covering its viewBox
+ */
+export function addSvgBackground(svg: string, color: string): string {
+    const root = ROOT_TAG.exec(svg);
+    if (!root) {
+        return svg;
+    }
+    const viewBox = /\sviewBox="([^"]+)"/.exec(root[0])?.[1].trim().split(/[\s,]+/).map(Number);
+    const [x, y, width, height] = viewBox?.length === 4 && viewBox.every(Number.isFinite)
+        ? viewBox.map(String)
+        : ['0', '0', '100%', '100%'];
+    const fill = color.replace(/[<>"&]/g, '');
+    const rect = `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${fill}" style="fill: ${fill}"/>`;
+
+    return svg.slice(0, root.index + root[0].length) + rect + svg.slice(root.index + root[0].length);
+}
+
+/**
+ * Fetch a font and return it as a data URL
+ */
+async function fetchFont(url: string): Promise<string> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch font ${url}: ${response.status}`);
+    }
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim();
+    const type = contentType?.startsWith('font/')
+        ? contentType
+        : FONT_TYPES[extname(new URL(url).pathname).toLowerCase()] ?? 'application/octet-stream';
+    return `data:${type};base64,${Buffer.from(await response.arrayBuffer()).toString('base64')}`;
+}
+
+/**
+ * Embed the fonts the diagram uses as @font-face rules with data URLs
+ */
+export async function embedSvgFonts(svg: string, fonts: FontOptions[], cwd = process.cwd()): Promise<string> {
+    const used = fonts.filter(font => svg.toLowerCase().includes(font.family.toLowerCase()));
+    const root = ROOT_TAG.exec(svg);
+    if (used.length === 0 || !root) {
+        return svg;
+    }
+
+    const embedded = await Promise.all(used.map(async font => (
+        /^https?:/i.test(font.src) ? { ...font, src: await fetchFont(font.src) } : font
+    )));
+    const style = `<style>${fontFaceCss(embedded, cwd)}</style>`;
+
+    return svg.slice(0, root.index + root[0].length) + style + svg.slice(root.index + root[0].length);
+}
+
+/**
+ * Remove comments and whitespace that doesn't affect rendering
+ */
+export function minifySvg(svg: string): string {
+    const compact = svg
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/>\s*\n\s*</g, '><')
+        .trim();
+
+    return mapStyles(compact, css => css
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/\s+/g, ' ')
+        .replace(/\s*([{};,])\s*/g, '$1')
+        .replace(/:\s+/g, ':')
+        .replace(/;}/g, '}')
+        .trim());
+}
+
+/**
+ * Post-process an SVG exported by Mermaid according to the output options
+ */
+export async function processSvg(
+    svg: string,
+    options: SvgOutputOptions & { backgroundColor?: string; fonts?: FontOptions[] },
+    cwd = process.cwd()
+): Promise<string> {
+    const { backgroundColor, fonts = [], embedFonts = false, prefix, sanitize = false, minify = false, xmlDeclaration = false } = options;
+    let result = svg;
+
+    if (sanitize) {
+        result = sanitizeSvg(result);
+    }
+    if (prefix) {
+        result = prefixSvg(result, prefix);
+    }
+    if (backgroundColor && backgroundColor !== 'transparent' && backgroundColor !== 'none') {
+        result = addSvgBackground(result, backgroundColor);
+    }
+    if (embedFonts) {
+        result = await embedSvgFonts(result, fonts, cwd);
+    }
+    if (minify) {
+        result = minifySvg(result);
+    }
+    if (xmlDeclaration && !result.startsWith('<?xml')) {
+        result = `${XML_DECLARATION}${minify ? '' : '\n'}${result}`;
+    }
+    return result;
+}
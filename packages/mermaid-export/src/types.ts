@@ -1,9 +1,193 @@
+import type { MermaidSyntaxError } from './errors.js';
+
+/**
+ * Options controlling which Mermaid library renders the diagram
+ */
+export interface MermaidSourceOptions {
+    /** Path to a Mermaid browser bundle (e.g. `node_modules/mermaid/dist/mermaid.min.js`) to load instead of the installed package */
+    mermaidPath?: string;
+    /** Exact Mermaid version to render with, e.g. '11.4.1'; fails if the installed package differs */
+    mermaidVersion?: string;
+    /** Load Mermaid from the jsDelivr CDN (at `mermaidVersion`, or the latest 11.x) when no local copy is found (default: false) */
+    mermaidCdn?: boolean;
+}
+
+/**
+ * Mermaid configuration passed to `mermaid.initialize`. Only the commonly
+ * used keys are typed; see https://mermaid.js.org/config/schema-docs/config.html
+ */
+export interface MermaidConfig {
+    theme?: 'default' | 'forest' | 'dark' | 'neutral' | 'base' | 'null';
+    /** Theme variables, e.g. `primaryColor`; most only take effect with the 'base' theme */
+    themeVariables?: Record<string, string>;
+    /** Extra CSS added to every diagram */
+    themeCSS?: string;
+    fontFamily?: string;
+    /** Mermaid's security level (default: 'loose'); 'sandbox' is not supported */
+    securityLevel?: 'strict' | 'loose' | 'antiscript';
+    flowchart?: Record<string, unknown>;
+    sequence?: Record<string, unknown>;
+    [key: string]: unknown;
+}
+
+/**
+ * A font to make available to diagrams
+ */
+export interface FontOptions {
+    /** Family name to use in `fontFamily` or `themeVariables` */
+    family: string;
+    /** URL or file path of a woff2, woff, ttf or otf file; files are inlined into the page */
+    src: string;
+    /** 'normal', 'bold' or a number from 1 to 1000 (default: 'normal') */
+    weight?: string | number;
+    style?: 'normal' | 'italic' | 'oblique';
+}
+
+/**
+ * An Iconify icon pack for diagrams that reference icons, e.g. `logos:aws`
+ */
+export interface IconPackOptions {
+    /** Prefix used in diagrams, e.g. 'logos' */
+    name: string;
+    /** Iconify JSON: the parsed object, a file path or a URL */
+    icons: string | object;
+}
+
+/**
+ * Size of a page's viewport in CSS pixels
+ */
+export interface Viewport {
+    width: number;
+    height: number;
+    /** Device pixel ratio (default: 1) */
+    deviceScaleFactor?: number;
+}
+
+/**
+ * Region of a page to capture in a screenshot
+ */
+export interface ScreenshotOptions {
+    type: 'png' | 'jpeg' | 'webp';
+    clip: { x: number; y: number; width: number; height: number };
+    /** Leave the page background transparent */
+    omitBackground: boolean;
+}
+
+/**
+ * A page of a rendering backend. Functions passed to `evaluate` and
+ * `waitForFunction` run inside the page, so they can't use variables from
+ * the surrounding code; arguments and results must be JSON-serializable.
+ * `setContent` and `waitForFunction` reject with an error named
+ * 'TimeoutError' when they run out of time, as Puppeteer and Playwright do.
+ */
+export interface RenderPage {
+    /** Load HTML and wait until it and its resources have loaded */
+    setContent(html: string, timeout: number): Promise<void>;
+    evaluate<T, A = undefined>(fn: (arg: A) => T, arg?: A): Promise<Awaited<T>>;
+    /** Wait until `fn` returns a truthy value */
+    waitForFunction(fn: () => unknown, timeout: number): Promise<void>;
+    screenshot(options: ScreenshotOptions): Promise<Buffer>;
+    /** Print the page to PDF, using the page sizes from its CSS and printing backgrounds */
+    pdf(): Promise<Buffer>;
+    close(): Promise<void>;
+    isClosed(): boolean;
+}
+
+/**
+ * Something that renders pages, usually a browser
+ */
+export interface RenderBackend {
+    /** Open a blank page whose viewport is fixed for its lifetime */
+    newPage(viewport?: Viewport): Promise<RenderPage>;
+    /** False once the browser has exited or disconnected, so a new one is started */
+    isConnected(): boolean;
+    /** Close the browser, or disconnect from one the backend didn't launch */
+    close(): Promise<void>;
+}
+
+/**
+ * Options for launching the browser. Options other than these are passed
+ * through to `puppeteer.launch` or Playwright's `chromium.launch`.
+ */
+export interface LaunchOptions {
+    /** Browser executable to run instead of the one the library downloaded */
+    executablePath?: string;
+    /** Command-line arguments added to the defaults */
+    args?: string[];
+    /** Run without a window (default: true) */
+    headless?: boolean;
+    [option: string]: unknown;
+}
+
+/**
+ * Options choosing what renders the diagrams
+ */
+export interface BackendOptions {
+    /**
+     * Rendering backend (default: 'puppeteer'). 'playwright' and 'jsdom' need
+     * their package installed. 'jsdom' runs without a browser but only renders
+     * SVG, with text sizes estimated. A RenderBackend object is used as-is and
+     * is not closed by `closeBrowser`.
+     */
+    backend?: 'puppeteer' | 'playwright' | 'jsdom' | RenderBackend;
+    /** WebSocket endpoint of a running Chrome to connect to instead of launching one */
+    browserWSEndpoint?: string;
+    launchOptions?: LaunchOptions;
+}
+
+/**
+ * Options shared by every render
+ */
+export interface RenderOptions extends MermaidSourceOptions, BackendOptions {
+    /** Milliseconds to wait for Mermaid to load and render before failing (default: 30000) */
+    timeout?: number;
+    /** Mermaid configuration; the `theme` option takes precedence over `mermaidConfig.theme` */
+    mermaidConfig?: MermaidConfig;
+    /** Fonts loaded before rendering, so text is measured with them */
+    fonts?: FontOptions[];
+    /** Icon packs registered before rendering (needs Mermaid 11.1 or later) */
+    iconPacks?: IconPackOptions[];
+}
+
+/**
+ * A CSS length: a number of pixels or a string with a px, pt, mm, cm or in unit
+ */
+export type PdfLength = number | string;
+
+/**
+ * Page layout options for PDF export
+ */
+export interface PdfPageOptions {
+    /** Page size; 'fit' sizes each page to its diagram (default: 'fit') */
+    pageSize?: 'fit' | 'A4' | 'Letter';
+    /** Page orientation for A4 and Letter (default: 'portrait') */
+    orientation?: 'portrait' | 'landscape';
+    /** Page margin, for all sides or per side (default: 0 for 'fit', '10mm' otherwise) */
+    margin?: PdfLength | { top?: PdfLength; right?: PdfLength; bottom?: PdfLength; left?: PdfLength };
+}
+
+/**
+ * Post-processing options for SVG output
+ */
+export interface SvgOutputOptions {
+    /** Embed the `fonts` the diagram uses as data URLs, so the SVG renders without them installed (default: false) */
+    embedFonts?: boolean;
+    /** Prefix for every id and class (e.g. 'diagram1-'), so several diagrams can be inlined in one page */
+    prefix?: string;
+    /** Remove scripts, embedded documents, event handler attributes and javascript:, vbscript: and non-image data: links (default: false) */
+    sanitize?: boolean;
+    /** Remove comments and insignificant whitespace (default: false) */
+    minify?: boolean;
+    /** Start the file with an `<?xml ...?>` declaration (default: false) */
+    xmlDeclaration?: boolean;
+}
+
 /**
  * Options for exporting Mermaid diagrams
  */
-export interface ExportOptions {
+export interface ExportOptions extends RenderOptions, PdfPageOptions, SvgOutputOptions {
     /** Output format (default: 'svg') */
-    format?: 'svg' | 'png' | 'jpeg' | 'webp';
+    format?: 'svg' | 'png' | 'jpeg' | 'webp' | 'pdf';
     /** Width of the output image in pixels (only for raster formats) */
     width?: number;
     /** Height of the output image in pixels (only for raster formats) */
@@ -19,7 +203,7 @@ export interface ExportOptions {
 /**
  * Options for raster image export (PNG, JPEG, WebP)
  */
-export interface RasterExportOptions {
+export interface RasterExportOptions extends RenderOptions {
     /** Width of the output image in pixels */
     width?: number;
     /** Height of the output image in pixels */
@@ -35,9 +219,26 @@ export interface RasterExportOptions {
 /**
  * Options for SVG export
  */
-export interface SvgExportOptions {
-    /** Background color (default: 'transparent') */
+export interface SvgExportOptions extends RenderOptions, SvgOutputOptions {
+    /** Background color, painted behind the diagram unless 'transparent' (default: 'transparent') */
+    backgroundColor?: string;
+    /** Mermaid theme (default: 'default') */
+    theme?: 'default' | 'forest' | 'dark' | 'neutral' | 'base';
+}
+
+/**
+ * Options for PDF export
+ */
+export interface PdfExportOptions extends RenderOptions, PdfPageOptions {
+    /** Background color (default: 'white') */
     backgroundColor?: string;
     /** Mermaid theme (default: 'default') */
     theme?: 'default' | 'forest' | 'dark' | 'neutral' | 'base';
 }
+
+/**
+ * Outcome of validating a diagram with Mermaid's parser
+ */
+export type ValidationResult =
+    | { valid: true; diagramType: string }
+    | { valid: false; diagramType?: string; error: MermaidSyntaxError };
@@ -1,2 +1,2 @@
 import { defineConfig } from 'tsup';
-export default defineConfig({ entry: ['src/index.ts'], format: ['esm', 'cjs'], dts: true, clean: true, minify: true, sourcemap: true });
+export default defineConfig({ entry: ['src/index.ts', 'src/bin.ts'], format: ['esm', 'cjs'], dts: true, clean: true, minify: true, sourcemap: true });
@@ -0,0 +1,35 @@
+/**
+ * Aborts the controller when the given signal aborts.
+ * Returns a cleanup function that removes the listener.
+ */
+export function linkSignal(signal: AbortSignal | null | undefined, controller: AbortController): () => void {
+    if (!signal) return () => { };
+    if (signal.aborted) {
+        controller.abort(signal.reason);
+        return () => { };
+    }
+    const onAbort = () => controller.abort(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Waits for `ms`, rejecting early with the signal's reason if it aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(signal!.reason);
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
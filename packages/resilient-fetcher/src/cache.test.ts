@@ -0,0 +1,221 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { resilientFetch, createHttpCache, createMemoryCacheStorage, type HttpCache } from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const URL_ = 'https://example.com/dashboard';
+
+const ok = (body: string, headers: Record<string, string> = {}) =>
+    new Response(body, { status: 200, headers });
+
+describe('httpCache', () => {
+    let httpCache: HttpCache;
+
+    beforeEach(() => {
+        mockFetch.mockReset();
+        vi.useFakeTimers();
+        httpCache = createHttpCache();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('serves fresh responses from cache', async () => {
+        mockFetch.mockResolvedValueOnce(ok('v1', { 'Cache-Control': 'max-age=60' }));
+
+        await resilientFetch(URL_, { httpCache });
+        const cached = await resilientFetch(URL_, { httpCache });
+
+        expect(await cached.text()).toBe('v1');
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('does not store no-store responses', async () => {
+        mockFetch.mockImplementation(async () => ok('v', { 'Cache-Control': 'no-store' }));
+
+        await resilientFetch(URL_, { httpCache });
+        await resilientFetch(URL_, { httpCache });
+
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('revalidates stale entries with conditional headers and treats 304 as a hit', async () => {
+        mockFetch
+            .mockResolvedValueOnce(ok('v1', {
+                'Cache-Control': 'max-age=1',
+                ETag: '"abc"',
+                'Last-Modified': 'Mon, 01 Jan 2024 00:00:00 GMT'
+            }))
+            .mockResolvedValueOnce(new Response(null, { status: 304, headers: { 'Cache-Control': 'max-age=60' } }));
+
+        await resilientFetch(URL_, { httpCache });
+        vi.advanceTimersByTime(2000);
+        const response = await resilientFetch(URL_, { httpCache });
+
+        const headers: Headers = mockFetch.mock.calls[1][1].headers;
+        expect(headers.get('If-None-Match')).toBe('"abc"');
+        expect(headers.get('If-Modified-Since')).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe('v1');
+
+        // The 304 refreshed the entry's freshness
+        await resilientFetch(URL_, { httpCache });
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('replaces the entry when revalidation returns new content', async () => {
+        mockFetch
+            .mockResolvedValueOnce(ok('v1', { ETag: '"1"' }))
+            .mockResolvedValueOnce(ok('v2', { ETag: '"2"', 'Cache-Control': 'max-age=60' }));
+
+        await resilientFetch(URL_, { httpCache });
+        const response = await resilientFetch(URL_, { httpCache });
+        const cached = await resilientFetch(URL_, { httpCache });
+
+        expect(await response.text()).toBe('v2');
+        expect(await cached.text()).toBe('v2');
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('serves stale content while revalidating in the background', async () => {
+        mockFetch
+            .mockResolvedValueOnce(ok('v1', { 'Cache-Control': 'max-age=1, stale-while-revalidate=60' }))
+            .mockResolvedValueOnce(ok('v2', { 'Cache-Control': 'max-age=60' }));
+
+        await resilientFetch(URL_, { httpCache });
+        vi.advanceTimersByTime(2000);
+
+        const stale = await resilientFetch(URL_, { httpCache });
+        expect(await stale.text()).toBe('v1');
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+
+        await vi.advanceTimersByTimeAsync(0);
+        const fresh = await resilientFetch(URL_, { httpCache });
+        expect(await fresh.text()).toBe('v2');
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('runs onResponse on cached responses and keeps their url', async () => {
+        mockFetch.mockResolvedValueOnce(ok('v1', { 'Cache-Control': 'max-age=60' }));
+        const onResponse = vi.fn((response: Response) => response);
+
+        await resilientFetch(URL_, { httpCache, onResponse });
+        const cached = await resilientFetch(URL_, { httpCache, onResponse });
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(onResponse).toHaveBeenCalledTimes(2);
+        expect(cached.url).toBe(URL_);
+    });
+
+    test('keeps revalidating after the caller aborts and reports failures', async () => {
+        const stale = { 'Cache-Control': 'max-age=1, stale-while-revalidate=60' };
+        mockFetch
+            .mockResolvedValueOnce(ok('v1', stale))
+            .mockResolvedValueOnce(ok('v2', stale))
+            .mockRejectedValueOnce(new TypeError('fetch failed'));
+        await resilientFetch(URL_, { httpCache });
+        vi.advanceTimersByTime(2000);
+
+        const controller = new AbortController();
+        await resilientFetch(URL_, { httpCache, signal: controller.signal });
+        controller.abort();
+        expect(mockFetch.mock.calls[1][1].signal.aborted).toBe(false);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(await (await resilientFetch(URL_, { httpCache })).text()).toBe('v2');
+
+        vi.advanceTimersByTime(2000);
+        const onEvent = vi.fn();
+        await resilientFetch(URL_, { httpCache, retries: 0, onEvent });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(onEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'revalidation-error', url: URL_ }));
+    });
+
+    test('tracks background revalidations per cache', async () => {
+        const stale = { 'Cache-Control': 'max-age=1, stale-while-revalidate=60' };
+        const other = createHttpCache();
+        mockFetch.mockImplementation(async () => ok('v', stale));
+        await resilientFetch(URL_, { httpCache });
+        await resilientFetch(URL_, { httpCache: other });
+        vi.advanceTimersByTime(2000);
+
+        await resilientFetch(URL_, { httpCache });
+        await resilientFetch(URL_, { httpCache: other });
+
+        expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    test('serves stale content when retries are exhausted (stale-if-error)', async () => {
+        mockFetch
+            .mockResolvedValueOnce(ok('v1', { 'Cache-Control': 'max-age=1, stale-if-error=3600' }))
+            .mockRejectedValue(new Error('backend down'));
+
+        await resilientFetch(URL_, { httpCache });
+        vi.advanceTimersByTime(2000);
+
+        const promise = resilientFetch(URL_, { httpCache, retries: 2, retryDelay: 100 });
+        await vi.advanceTimersByTimeAsync(200);
+        const response = await promise;
+
+        expect(await response.text()).toBe('v1');
+        expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    test('uses the cache-level staleIfError default', async () => {
+        httpCache = createHttpCache({ staleIfError: 60 });
+        mockFetch
+            .mockResolvedValueOnce(ok('v1'))
+            .mockResolvedValueOnce(new Response('oops', { status: 500 }));
+
+        await resilientFetch(URL_, { httpCache });
+        const response = await resilientFetch(URL_, { httpCache, retries: 0 });
+
+        expect(await response.text()).toBe('v1');
+    });
+
+    test('rethrows once the stale-if-error window has passed', async () => {
+        httpCache = createHttpCache({ staleIfError: 1 });
+        mockFetch
+            .mockResolvedValueOnce(ok('v1'))
+            .mockRejectedValue(new Error('backend down'));
+
+        await resilientFetch(URL_, { httpCache });
+        vi.advanceTimersByTime(5000);
+
+        await expect(resilientFetch(URL_, { httpCache, retries: 0 })).rejects.toThrow('backend down');
+    });
+
+    test('bypasses the cache for non-GET requests', async () => {
+        mockFetch.mockImplementation(async () => ok('v', { 'Cache-Control': 'max-age=60' }));
+
+        await resilientFetch(URL_, { httpCache, method: 'POST' });
+        await resilientFetch(URL_, { httpCache, method: 'POST' });
+
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('respects Vary request headers', async () => {
+        mockFetch.mockImplementation(async (_url, init) =>
+            ok(new Headers(init.headers).get('Accept-Language') ?? '', { 'Cache-Control': 'max-age=60', Vary: 'Accept-Language' }));
+
+        await resilientFetch(URL_, { httpCache, headers: { 'Accept-Language': 'en' } });
+        const fr = await resilientFetch(URL_, { httpCache, headers: { 'Accept-Language': 'fr' } });
+
+        expect(await fr.text()).toBe('fr');
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('supports pluggable storage', async () => {
+        const storage = createMemoryCacheStorage();
+        const set = vi.spyOn(storage, 'set');
+        httpCache = createHttpCache({ storage });
+        mockFetch.mockResolvedValueOnce(ok('v1', { 'Cache-Control': 'max-age=60' }));
+
+        await resilientFetch(URL_, { httpCache });
+
+        expect(set).toHaveBeenCalledWith(`GET ${URL_}`, expect.objectContaining({ status: 200 }));
+        storage.clear();
+        expect(await storage.get(`GET ${URL_}`)).toBeUndefined();
+    });
+});
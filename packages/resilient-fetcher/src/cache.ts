@@ -0,0 +1,301 @@
+import { AbortedError, HttpError } from './errors.js';
+
+/**
+ * A stored response. Kept as plain data so storage backends can serialize it.
+ */
+export interface CacheEntry {
+    status: number;
+    statusText: string;
+    headers: [string, string][];
+    body: ArrayBuffer;
+    /** When the response was generated, adjusted for its Age header (ms timestamp) */
+    storedAt: number;
+    /** Request header values named by the response's Vary header */
+    vary: Record<string, string | null>;
+}
+
+/**
+ * Storage backend for the HTTP cache. Methods may be sync or async.
+ */
+export interface HttpCacheStorage {
+    get: (key: string) => CacheEntry | undefined | Promise<CacheEntry | undefined>;
+    set: (key: string, entry: CacheEntry) => void | Promise<void>;
+    delete: (key: string) => void | Promise<void>;
+}
+
+export interface HttpCacheOptions {
+    /** Where entries are kept (default: in-memory) */
+    storage?: HttpCacheStorage;
+    /** Builds the cache key for a request (default: method + URL) */
+    key?: (url: string, init: RequestInit) => string;
+    /** stale-while-revalidate window in seconds when the response does not set one (default: 0) */
+    staleWhileRevalidate?: number;
+    /** stale-if-error window in seconds when the response does not set one (default: 0) */
+    staleIfError?: number;
+}
+
+export interface HttpCache {
+    readonly storage: HttpCacheStorage;
+    readonly key: (url: string, init: RequestInit) => string;
+    readonly staleWhileRevalidate: number;
+    readonly staleIfError: number;
+}
+
+/**
+ * Creates an unbounded in-memory cache storage backed by a Map.
+ */
+export function createMemoryCacheStorage(): HttpCacheStorage & { clear: () => void } {
+    const entries = new Map<string, CacheEntry>();
+    return {
+        get: key => entries.get(key),
+        set: (key, entry) => {
+            entries.set(key, entry);
+        },
+        delete: key => {
+            entries.delete(key);
+        },
+        clear: () => entries.clear()
+    };
+}
+
+/**
+ * Creates an HTTP cache that honors Cache-Control, ETag and Last-Modified.
+ * Pass it to resilientFetch via the `httpCache` option.
+ *
+ * @example
+ * const cache = createHttpCache({ staleIfError: 3600 });
+ * const response = await resilientFetch('/api/dashboard', { httpCache: cache });
+ */
+export function createHttpCache(options: HttpCacheOptions = {}): HttpCache {
+    return {
+        storage: options.storage ?? createMemoryCacheStorage(),
+        key: options.key ?? ((url, init) => `${(init.method ?? 'GET').toUpperCase()} ${url}`),
+        staleWhileRevalidate: options.staleWhileRevalidate ?? 0,
+        staleIfError: options.staleIfError ?? 0
+    };
+}
+
+interface Directives {
+    noStore: boolean;
+    noCache: boolean;
+    maxAge: number | null;
+    staleWhileRevalidate: number | null;
+    staleIfError: number | null;
+}
+
+/**
+ * Parses the Cache-Control directives the cache cares about.
+ */
+function parseCacheControl(value: string | null): Directives {
+    const directives: Directives = {
+        noStore: false,
+        noCache: false,
+        maxAge: null,
+        staleWhileRevalidate: null,
+        staleIfError: null
+    };
+    if (!value) return directives;
+
+    for (const part of value.toLowerCase().split(',')) {
+        const [name, raw] = part.trim().split('=');
+        const seconds = raw === undefined ? NaN : parseInt(raw.replace(/"/g, ''), 10);
+        switch (name) {
+            case 'no-store':
+                directives.noStore = true;
+                break;
+            case 'no-cache':
+                directives.noCache = true;
+                break;
+            case 'max-age':
+                if (!isNaN(seconds)) directives.maxAge = seconds;
+                break;
+            case 'stale-while-revalidate':
+                if (!isNaN(seconds)) directives.staleWhileRevalidate = seconds;
+                break;
+            case 'stale-if-error':
+                if (!isNaN(seconds)) directives.staleIfError = seconds;
+                break;
+        }
+    }
+    return directives;
+}
+
+/**
+ * Freshness lifetime of a stored response in ms, from max-age or Expires.
+ */
+function freshnessLifetime(headers: Headers, directives: Directives, storedAt: number): number {
+    if (directives.noCache) return 0;
+    if (directives.maxAge !== null) return directives.maxAge * 1000;
+
+    const expires = headers.get('expires');
+    if (expires) {
+        const date = Date.parse(headers.get('date') ?? '') || storedAt;
+        const expiresAt = Date.parse(expires);
+        return isNaN(expiresAt) ? 0 : Math.max(0, expiresAt - date);
+    }
+    return 0;
+}
+
+/**
+ * Reads the request header values named by a Vary header.
+ */
+function varyValues(vary: string | null, requestHeaders: Headers): Record<string, string | null> {
+    const values: Record<string, string | null> = {};
+    if (!vary) return values;
+    for (const name of vary.split(',')) {
+        const header = name.trim().toLowerCase();
+        if (header) values[header] = requestHeaders.get(header);
+    }
+    return values;
+}
+
+function matchesVary(entry: CacheEntry, requestHeaders: Headers): boolean {
+    return Object.entries(entry.vary).every(([name, value]) => requestHeaders.get(name) === value);
+}
+
+function toResponse(entry: CacheEntry, url: string): Response {
+    const nullBody = entry.status === 204 || entry.status === 304;
+    const response = new Response(nullBody ? null : entry.body, {
+        status: entry.status,
+        statusText: entry.statusText,
+        headers: entry.headers
+    });
+    // The constructor can't set the URL a network response would carry
+    Object.defineProperty(response, 'url', { value: url });
+    return response;
+}
+
+/**
+ * Stores a response if its headers allow it. Returns the stored entry, or null.
+ */
+async function store(
+    cache: HttpCache,
+    key: string,
+    response: Response,
+    requestHeaders: Headers
+): Promise<CacheEntry | null> {
+    const directives = parseCacheControl(response.headers.get('cache-control'));
+    const vary = response.headers.get('vary');
+    if (response.status !== 200 || directives.noStore || vary?.trim() === '*') {
+        return null;
+    }
+
+    const age = parseInt(response.headers.get('age') ?? '0', 10) || 0;
+    const entry: CacheEntry = {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Array.from(response.headers),
+        body: await response.clone().arrayBuffer(),
+        storedAt: Date.now() - age * 1000,
+        vary: varyValues(vary, requestHeaders)
+    };
+    await cache.storage.set(key, entry);
+    return entry;
+}
+
+/**
+ * Merges the headers of a 304 response into a stored entry and refreshes it.
+ */
+async function refresh(cache: HttpCache, key: string, entry: CacheEntry, notModified: Response): Promise<CacheEntry> {
+    const headers = new Headers(entry.headers);
+    notModified.headers.forEach((value, name) => {
+        if (name !== 'content-length') headers.set(name, value);
+    });
+    const age = parseInt(notModified.headers.get('age') ?? '0', 10) || 0;
+    const updated: CacheEntry = {
+        ...entry,
+        headers: Array.from(headers),
+        storedAt: Date.now() - age * 1000
+    };
+    await cache.storage.set(key, updated);
+    return updated;
+}
+
+/** Keys with a background revalidation already running, per cache */
+const revalidating = new WeakMap<HttpCache, Set<string>>();
+
+/**
+ * Serves a GET request through the cache. `send` performs the network request
+ * (with retries) and is used for misses, conditional revalidation and
+ * background refreshes. Background refreshes outlive the caller's signal and
+ * report failures to `onRevalidationError`.
+ */
+export async function cachedFetch(
+    cache: HttpCache,
+    url: string,
+    init: RequestInit,
+    send: (init: RequestInit) => Promise<Response>,
+    onRevalidationError?: (error: Error) => void
+): Promise<Response> {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const requestHeaders = new Headers(init.headers);
+    const requestDirectives = parseCacheControl(requestHeaders.get('cache-control'));
+
+    if (method !== 'GET' || requestDirectives.noStore) {
+        return send(init);
+    }
+
+    const key = cache.key(url, init);
+    const cached = await cache.storage.get(key);
+    const entry = cached && matchesVary(cached, requestHeaders) ? cached : undefined;
+
+    if (!entry) {
+        const response = await send(init);
+        await store(cache, key, response, requestHeaders);
+        return response;
+    }
+
+    const headers = new Headers(entry.headers);
+    const directives = parseCacheControl(headers.get('cache-control'));
+    const age = Date.now() - entry.storedAt;
+    const lifetime = requestDirectives.noCache ? 0 : freshnessLifetime(headers, directives, entry.storedAt);
+
+    if (age < lifetime) {
+        return toResponse(entry, url);
+    }
+
+    // Conditional request so an unchanged resource costs a 304 instead of a full body
+    const conditional = new Headers(requestHeaders);
+    const etag = headers.get('etag');
+    const lastModified = headers.get('last-modified');
+    if (etag) conditional.set('If-None-Match', etag);
+    if (lastModified) conditional.set('If-Modified-Since', lastModified);
+
+    const revalidate = async (signal = init.signal): Promise<Response> => {
+        const response = await send({ ...init, headers: conditional, signal });
+        if (response.status === 304) {
+            return toResponse(await refresh(cache, key, entry, response), url);
+        }
+        await store(cache, key, response, requestHeaders);
+        return response;
+    };
+
+    const swr = (directives.staleWhileRevalidate ?? cache.staleWhileRevalidate) * 1000;
+    if (!requestDirectives.noCache && age < lifetime + swr) {
+        let keys = revalidating.get(cache);
+        if (!keys) {
+            keys = new Set();
+            revalidating.set(cache, keys);
+        }
+        if (!keys.has(key)) {
+            const running = keys;
+            running.add(key);
+            // Its own controller, so a caller aborting after getting the stale response doesn't cancel the refresh
+            revalidate(new AbortController().signal)
+                .catch(error => onRevalidationError?.(error instanceof Error ? error : new Error(String(error))))
+                .finally(() => running.delete(key));
+        }
+        return toResponse(entry, url);
+    }
+
+    const sie = (directives.staleIfError ?? cache.staleIfError) * 1000;
+    try {
+        return await revalidate();
+    } catch (error) {
+        const serverError = error instanceof HttpError ? error.status >= 500 : !(error instanceof AbortedError);
+        if (serverError && age < lifetime + sie) {
+            return toResponse(entry, url);
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,119 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createCircuitBreaker, CircuitOpenError, resilientFetch } from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe('createCircuitBreaker', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('opens after reaching the failure threshold', () => {
+        const breaker = createCircuitBreaker({ failureThreshold: 2 });
+        const origin = 'https://example.com';
+
+        breaker.acquire(origin);
+        breaker.record(origin, new Error('fail'), null);
+        expect(breaker.getState(origin)).toBe('closed');
+
+        breaker.acquire(origin);
+        breaker.record(origin, null, { status: 503 } as Response);
+        expect(breaker.getState(origin)).toBe('open');
+
+        expect(() => breaker.acquire(origin)).toThrow(CircuitOpenError);
+    });
+
+    test('success resets the consecutive failure count', () => {
+        const breaker = createCircuitBreaker({ failureThreshold: 2 });
+        const origin = 'https://example.com';
+
+        breaker.record(origin, new Error('fail'), null);
+        breaker.record(origin, null, { status: 200 } as Response);
+        breaker.record(origin, new Error('fail'), null);
+
+        expect(breaker.getState(origin)).toBe('closed');
+    });
+
+    test('half-opens after the cooldown and closes on success', () => {
+        const onStateChange = vi.fn();
+        const breaker = createCircuitBreaker({ failureThreshold: 1, cooldown: 1000, onStateChange });
+        const origin = 'https://example.com';
+
+        breaker.record(origin, new Error('fail'), null);
+        vi.advanceTimersByTime(1000);
+
+        breaker.acquire(origin);
+        expect(breaker.getState(origin)).toBe('half-open');
+        // Only one trial request is allowed at a time
+        expect(() => breaker.acquire(origin)).toThrow(CircuitOpenError);
+
+        breaker.record(origin, null, { status: 200 } as Response);
+        expect(breaker.getState(origin)).toBe('closed');
+        expect(onStateChange.mock.calls).toEqual([
+            [origin, 'open', 'closed'],
+            [origin, 'half-open', 'open'],
+            [origin, 'closed', 'half-open']
+        ]);
+    });
+
+    test('reopens when the trial request fails', () => {
+        const breaker = createCircuitBreaker({ failureThreshold: 1, cooldown: 1000 });
+        const origin = 'https://example.com';
+
+        breaker.record(origin, new Error('fail'), null);
+        vi.advanceTimersByTime(1000);
+        breaker.acquire(origin);
+        breaker.record(origin, new Error('still failing'), null);
+
+        expect(breaker.getState(origin)).toBe('open');
+    });
+
+    test('tracks origins independently and exposes a snapshot', () => {
+        const breaker = createCircuitBreaker({ failureThreshold: 1, cooldown: 1000 });
+
+        breaker.record('https://a.example.com', new Error('fail'), null);
+        breaker.record('https://b.example.com', null, { status: 200 } as Response);
+
+        expect(breaker.snapshot()).toEqual([
+            { origin: 'https://a.example.com', state: 'open', failures: 1, openedAt: Date.now(), retryAt: Date.now() + 1000 },
+            { origin: 'https://b.example.com', state: 'closed', failures: 0, openedAt: null, retryAt: null }
+        ]);
+
+        breaker.reset();
+        expect(breaker.getState('https://a.example.com')).toBe('closed');
+    });
+
+    describe('with resilientFetch', () => {
+        beforeEach(() => {
+            mockFetch.mockReset();
+        });
+
+        test('rejects immediately once the circuit opens', async () => {
+            mockFetch.mockResolvedValue({ ok: false, status: 500 });
+            const breaker = createCircuitBreaker({ failureThreshold: 2 });
+
+            const promise = resilientFetch('https://example.com/data', {
+                retries: 5,
+                retryDelay: 100,
+                circuitBreaker: breaker
+            }).catch(e => e);
+
+            await vi.advanceTimersByTimeAsync(200);
+            const error = await promise;
+
+            expect(error).toBeInstanceOf(CircuitOpenError);
+            expect(error.origin).toBe('https://example.com');
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+
+            await expect(
+                resilientFetch('https://example.com/other', { circuitBreaker: breaker })
+            ).rejects.toBeInstanceOf(CircuitOpenError);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+    });
+});
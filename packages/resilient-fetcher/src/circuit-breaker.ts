@@ -0,0 +1,179 @@
+import { CircuitOpenError } from './errors.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+    /** Consecutive failures before an origin's circuit opens (default: 5) */
+    failureThreshold?: number;
+    /** Time in ms an open circuit waits before allowing a trial request (default: 30000) */
+    cooldown?: number;
+    /** Trial requests allowed at once while half-open (default: 1) */
+    halfOpenMaxRequests?: number;
+    /** Decides whether an attempt counts as a failure (default: network errors and 5xx) */
+    isFailure?: (error: Error | null, response: Response | null) => boolean;
+    /** Called whenever an origin's circuit changes state */
+    onStateChange?: (origin: string, to: CircuitState, from: CircuitState) => void;
+}
+
+export interface CircuitSnapshot {
+    origin: string;
+    state: CircuitState;
+    /** Consecutive failures recorded while closed */
+    failures: number;
+    /** When the circuit last opened (ms timestamp), or null */
+    openedAt: number | null;
+    /** When the next trial request will be allowed (ms timestamp), or null */
+    retryAt: number | null;
+}
+
+export interface CircuitBreaker {
+    /** Reserves an attempt for the origin. Throws CircuitOpenError while the circuit is open. */
+    acquire: (origin: string) => void;
+    /** Records the outcome of an attempt previously acquired for the origin */
+    record: (origin: string, error: Error | null, response: Response | null) => void;
+    /** Releases an acquired attempt without recording an outcome (e.g. caller abort) */
+    release: (origin: string) => void;
+    /** Current state of an origin's circuit */
+    getState: (origin: string) => CircuitState;
+    /** Snapshot of every tracked origin, for dashboards and health checks */
+    snapshot: () => CircuitSnapshot[];
+    /** Resets one origin, or every origin when called without arguments */
+    reset: (origin?: string) => void;
+}
+
+interface CircuitEntry {
+    state: CircuitState;
+    failures: number;
+    openedAt: number | null;
+    trials: number;
+}
+
+/**
+ * Default failure condition: network errors and 5xx responses.
+ */
+const defaultIsFailure = (error: Error | null, response: Response | null): boolean => {
+    if (error || !response) return true;
+    return response.status >= 500;
+};
+
+/**
+ * Creates a circuit breaker that tracks closed/open/half-open state per origin.
+ *
+ * @example
+ * const breaker = createCircuitBreaker({ failureThreshold: 5, cooldown: 30000 });
+ * await resilientFetch('https://api.example.com/data', { circuitBreaker: breaker });
+ * breaker.getState('https://api.example.com'); // 'closed'
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}): CircuitBreaker {
+    const {
+        failureThreshold = 5,
+        cooldown = 30000,
+        halfOpenMaxRequests = 1,
+        isFailure = defaultIsFailure,
+        onStateChange
+    } = options;
+
+    const circuits = new Map<string, CircuitEntry>();
+
+    function getEntry(origin: string): CircuitEntry {
+        let entry = circuits.get(origin);
+        if (!entry) {
+            entry = { state: 'closed', failures: 0, openedAt: null, trials: 0 };
+            circuits.set(origin, entry);
+        }
+        return entry;
+    }
+
+    function transition(origin: string, entry: CircuitEntry, to: CircuitState): void {
+        const from = entry.state;
+        if (from === to) return;
+
+        entry.state = to;
+        entry.trials = 0;
+        if (to === 'open') {
+            entry.openedAt = Date.now();
+        } else if (to === 'closed') {
+            entry.failures = 0;
+            entry.openedAt = null;
+        }
+
+        if (onStateChange) {
+            onStateChange(origin, to, from);
+        }
+    }
+
+    return {
+        acquire(origin) {
+            const entry = getEntry(origin);
+
+            if (entry.state === 'open') {
+                const retryAt = (entry.openedAt ?? 0) + cooldown;
+                if (Date.now() < retryAt) {
+                    throw new CircuitOpenError(origin, retryAt);
+                }
+                transition(origin, entry, 'half-open');
+            }
+
+            if (entry.state === 'half-open') {
+                if (entry.trials >= halfOpenMaxRequests) {
+                    throw new CircuitOpenError(origin, Date.now() + cooldown);
+                }
+                entry.trials++;
+            }
+        },
+
+        record(origin, error, response) {
+            const entry = getEntry(origin);
+
+            if (!isFailure(error, response)) {
+                if (entry.state === 'half-open') {
+                    transition(origin, entry, 'closed');
+                } else {
+                    entry.failures = 0;
+                }
+                return;
+            }
+
+            if (entry.state === 'half-open') {
+                transition(origin, entry, 'open');
+                return;
+            }
+
+            entry.failures++;
+            if (entry.state === 'closed' && entry.failures >= failureThreshold) {
+                transition(origin, entry, 'open');
+            }
+        },
+
+        release(origin) {
+            const entry = circuits.get(origin);
+            if (entry && entry.state === 'half-open' && entry.trials > 0) {
+                entry.trials--;
+            }
+        },
+
+        getState(origin) {
+            return circuits.get(origin)?.state ?? 'closed';
+        },
+
+        snapshot() {
+            return Array.from(circuits, ([origin, entry]) => ({
+                origin,
+                state: entry.state,
+                failures: entry.failures,
+                openedAt: entry.openedAt,
+                retryAt: entry.openedAt === null ? null : entry.openedAt + cooldown
+            }));
+        },
+
+        reset(origin) {
+            const targets = origin === undefined ? Array.from(circuits.keys()) : [origin];
+            for (const key of targets) {
+                const entry = circuits.get(key);
+                if (!entry) continue;
+                transition(key, entry, 'closed');
+                entry.failures = 0;
+            }
+        }
+    };
+}
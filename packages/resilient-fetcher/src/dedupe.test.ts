@@ -0,0 +1,119 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { resilientFetch, defaultDedupeKey, AbortedError } from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+/** Resolves fetch manually so several callers can join while it is in flight */
+function deferredFetch() {
+    let resolve!: (response: Response) => void;
+    mockFetch.mockImplementation(() => new Promise<Response>(r => { resolve = r; }));
+    return (body: string) => resolve(new Response(body));
+}
+
+describe('dedupe', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    test('concurrent identical requests share one fetch', async () => {
+        const respond = deferredFetch();
+
+        const a = resilientFetch('https://example.com/data', { dedupe: true });
+        const b = resilientFetch('https://example.com/data', { dedupe: true });
+        await Promise.resolve();
+        respond('payload');
+
+        const [ra, rb] = await Promise.all([a, b]);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(ra).not.toBe(rb);
+        expect(await ra.text()).toBe('payload');
+        expect(await rb.text()).toBe('payload');
+    });
+
+    test('starts a new request once the previous one settles', async () => {
+        mockFetch.mockImplementation(async () => new Response('ok'));
+
+        await resilientFetch('https://example.com/data', { dedupe: true });
+        await resilientFetch('https://example.com/data', { dedupe: true });
+
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('does not share requests with different headers', async () => {
+        mockFetch.mockImplementation(async (_url, init) => new Response(new Headers(init.headers).get('Authorization')));
+
+        const [alice, bob] = await Promise.all([
+            resilientFetch('https://example.com/me', { dedupe: true, headers: { Authorization: 'alice' } }),
+            resilientFetch('https://example.com/me', { dedupe: true, headers: { Authorization: 'bob' } })
+        ]);
+
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        expect(await alice.text()).toBe('alice');
+        expect(await bob.text()).toBe('bob');
+    });
+
+    test('does not share requests that can change server state', async () => {
+        mockFetch.mockImplementation(async () => new Response('ok'));
+
+        await Promise.all([
+            resilientFetch('https://example.com', { dedupe: true, method: 'POST', body: 'a' }),
+            resilientFetch('https://example.com', { dedupe: true, method: 'POST', body: 'a' })
+        ]);
+
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('uses a custom key function', async () => {
+        const respond = deferredFetch();
+        const key = () => 'same';
+
+        const a = resilientFetch('https://example.com/a', { dedupe: { key } });
+        const b = resilientFetch('https://example.com/b', { dedupe: { key } });
+        await Promise.resolve();
+        respond('shared');
+
+        await Promise.all([a, b]);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('an aborting caller detaches without cancelling the others', async () => {
+        const respond = deferredFetch();
+        const controller = new AbortController();
+
+        const a = resilientFetch('https://example.com/data', { dedupe: true, signal: controller.signal });
+        const b = resilientFetch('https://example.com/data', { dedupe: true });
+        await Promise.resolve();
+        controller.abort();
+        respond('still here');
+
+        await expect(a).rejects.toBeInstanceOf(AbortedError);
+        expect(await (await b).text()).toBe('still here');
+        expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(false);
+    });
+
+    test('aborts the shared request once every caller has aborted', async () => {
+        deferredFetch();
+        const first = new AbortController();
+        const second = new AbortController();
+
+        const a = resilientFetch('https://example.com/data', { dedupe: true, signal: first.signal });
+        const b = resilientFetch('https://example.com/data', { dedupe: true, signal: second.signal });
+        await Promise.resolve();
+        const shared: AbortSignal = mockFetch.mock.calls[0][1].signal;
+
+        first.abort();
+        expect(shared.aborted).toBe(false);
+        second.abort();
+        expect(shared.aborted).toBe(true);
+        await expect(a).rejects.toBeInstanceOf(AbortedError);
+        await expect(b).rejects.toBeInstanceOf(AbortedError);
+    });
+
+    test('defaultDedupeKey covers headers and skips methods other than GET and HEAD', () => {
+        expect(defaultDedupeKey('https://example.com', {})).toBe('GET https://example.com');
+        expect(defaultDedupeKey('https://example.com', { method: 'head', headers: { Cookie: 'a=1', Accept: 'text/html' } }))
+            .toBe('HEAD https://example.com\naccept: text/html\ncookie: a=1');
+        expect(defaultDedupeKey('https://example.com', { method: 'POST', body: 'a' })).toBeNull();
+    });
+});
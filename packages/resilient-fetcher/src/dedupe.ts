@@ -0,0 +1,87 @@
+import { AbortedError } from './errors.js';
+
+export interface DedupeOptions {
+    /**
+     * Builds the key identifying identical requests. Return null to skip
+     * deduplication for a request (default: method + URL + headers, for GET
+     * and HEAD only).
+     */
+    key?: (url: string, init: RequestInit) => string | null;
+}
+
+/** A shared request and how many callers may still cancel it */
+interface InFlightRequest {
+    response: Promise<Response>;
+    controller: AbortController;
+    /** Callers waiting for the response that have not aborted */
+    waiting: number;
+}
+
+/** Requests currently in flight, keyed by dedupe key */
+const inFlight = new Map<string, InFlightRequest>();
+
+/** Methods deduplicated by the default key; others may change server state */
+const DEDUPE_METHODS = new Set(['GET', 'HEAD']);
+
+/**
+ * Default dedupe key: method + URL + every request header, so requests made
+ * with different credentials (Authorization, Cookie) or content negotiation
+ * never share a response. Only GET and HEAD requests are deduplicated.
+ */
+export function defaultDedupeKey(url: string, init: RequestInit): string | null {
+    const method = (init.method ?? 'GET').toUpperCase();
+    if (!DEDUPE_METHODS.has(method)) return null;
+    // Headers iterates in sorted order with lower-cased names
+    const headers = [...new Headers(init.headers)].map(([name, value]) => `${name}: ${value}`);
+    return [`${method} ${url}`, ...headers].join('\n');
+}
+
+/**
+ * Joins an identical in-flight request, or starts one with `run`. Every caller
+ * receives its own clone of the shared Response. A caller's signal only
+ * detaches that caller; the shared request is aborted once every waiting
+ * caller has aborted.
+ */
+export async function coalesce(
+    key: string,
+    url: string,
+    run: (signal: AbortSignal) => Promise<Response>,
+    signal?: AbortSignal | null
+): Promise<Response> {
+    const abortError = () => new AbortedError({ url, attempts: [], cause: signal?.reason });
+    if (signal?.aborted) throw abortError();
+
+    let shared = inFlight.get(key);
+    if (!shared) {
+        const controller = new AbortController();
+        const request: InFlightRequest = { response: run(controller.signal), controller, waiting: 0 };
+        inFlight.set(key, request);
+        const cleanup = () => {
+            if (inFlight.get(key) === request) inFlight.delete(key);
+        };
+        request.response.then(cleanup, cleanup);
+        shared = request;
+    }
+    const request = shared;
+    request.waiting++;
+
+    if (!signal) {
+        return (await request.response).clone();
+    }
+
+    return new Promise<Response>((resolve, reject) => {
+        const onAbort = () => {
+            reject(abortError());
+            request.waiting--;
+            if (request.waiting === 0) {
+                if (inFlight.get(key) === request) inFlight.delete(key);
+                request.controller.abort(signal.reason);
+            }
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        request.response.then(
+            response => resolve(response.clone()),
+            reject
+        ).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
@@ -0,0 +1,139 @@
+/** How a single attempt ended */
+export type AttemptOutcome = 'success' | 'http-error' | 'timeout' | 'network-error' | 'aborted';
+
+/**
+ * Record of one attempt made by resilientFetch.
+ */
+export interface AttemptRecord {
+    /** 1-based attempt number */
+    attempt: number;
+    /** When the attempt started (ms timestamp) */
+    startedAt: number;
+    /** How long the attempt took in ms */
+    duration: number;
+    outcome: AttemptOutcome;
+    /** HTTP status, when a response was received */
+    status?: number;
+    /** Error raised by the attempt, if any */
+    error?: Error;
+}
+
+export interface ResilientErrorDetails {
+    /** Requested URL */
+    url: string;
+    /** Every attempt made so far, oldest first */
+    attempts: AttemptRecord[];
+    /** Underlying error, if any */
+    cause?: unknown;
+}
+
+/**
+ * Base class for errors raised by resilientFetch once it stops retrying.
+ */
+export class ResilientFetchError extends Error {
+    readonly url: string;
+    readonly attempts: AttemptRecord[];
+
+    constructor(message: string, details: ResilientErrorDetails) {
+        super(message, details.cause === undefined ? undefined : { cause: details.cause });
+        this.name = 'ResilientFetchError';
+        this.url = details.url;
+        this.attempts = details.attempts;
+    }
+
+    /** Number of attempts made */
+    get attemptCount(): number {
+        return this.attempts.length;
+    }
+}
+
+/**
+ * The server answered with a non-2xx status. Carries the final Response,
+ * whose headers and body are still readable.
+ */
+export class HttpError extends ResilientFetchError {
+    readonly response: Response;
+    readonly status: number;
+
+    constructor(response: Response, details: ResilientErrorDetails) {
+        super(`Request failed with status ${response.status}`, details);
+        this.name = 'HttpError';
+        this.response = response;
+        this.status = response.status;
+    }
+}
+
+/**
+ * An attempt exceeded the configured timeout.
+ */
+export class TimeoutError extends ResilientFetchError {
+    /** Timeout that was exceeded, in ms */
+    readonly timeout: number;
+
+    constructor(timeout: number, details: ResilientErrorDetails) {
+        super('Request timed out', details);
+        this.name = 'TimeoutError';
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * fetch itself rejected (DNS failure, connection reset, CORS, ...).
+ * The original error is available as `cause`.
+ */
+export class NetworkError extends ResilientFetchError {
+    constructor(details: ResilientErrorDetails) {
+        const message = details.cause instanceof Error ? details.cause.message : 'Network request failed';
+        super(message, details);
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * The request was cancelled by the caller.
+ */
+export class AbortedError extends ResilientFetchError {
+    constructor(details: ResilientErrorDetails) {
+        super('Request aborted', details);
+        this.name = 'AbortedError';
+    }
+}
+
+/**
+ * Thrown when a request is rejected because the circuit for its origin is open.
+ */
+export class CircuitOpenError extends Error {
+    /** Origin whose circuit rejected the request */
+    readonly origin: string;
+    /** Timestamp (ms) after which a trial request will be allowed */
+    readonly retryAt: number;
+
+    constructor(origin: string, retryAt: number) {
+        super(`Circuit open for ${origin}`);
+        this.name = 'CircuitOpenError';
+        this.origin = origin;
+        this.retryAt = retryAt;
+    }
+}
+
+/**
+ * A JSON response did not pass the validator given to fetchJson.
+ * The parsed payload is kept so callers can log or inspect it.
+ */
+export class ValidationError extends Error {
+    /** Requested URL */
+    readonly url: string;
+    /** Parsed response body that failed validation */
+    readonly payload: unknown;
+    /** Response the payload was read from (body already consumed) */
+    readonly response: Response;
+
+    constructor(url: string, payload: unknown, response: Response, cause?: unknown) {
+        const reason = cause instanceof Error ? `: ${cause.message}` : '';
+        super(`Response validation failed for ${url}${reason}`, cause === undefined ? undefined : { cause });
+        this.name = 'ValidationError';
+        this.url = url;
+        this.payload = payload;
+        this.response = response;
+    }
+}
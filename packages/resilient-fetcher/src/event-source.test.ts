@@ -0,0 +1,246 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createEventSource, createEventStreamParser, HttpError, NetworkError, ResilientFetchError } from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+/** An event-stream response whose body delivers the chunks, then ends (or stays open) */
+function stream(chunks: string[], { open = false } = {}) {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+            if (!open) controller.close();
+        }
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const sentHeaders = (call: number) => new Headers(mockFetch.mock.calls[call][1].headers);
+
+describe('createEventStreamParser', () => {
+    test('parses fields, multi-line data and comments', () => {
+        const parser = createEventStreamParser();
+
+        const events = parser.push(': keep-alive\nevent: update\ndata: line 1\ndata: line 2\nid: 7\n\ndata:no space\n\n');
+
+        expect(events).toEqual([
+            { type: 'update', data: 'line 1\nline 2', id: '7' },
+            { type: 'message', data: 'no space', id: '7' }
+        ]);
+    });
+
+    test('handles CRLF and lines split across chunks', () => {
+        const parser = createEventStreamParser();
+
+        expect(parser.push('\uFEFFdata: he')).toEqual([]);
+        expect(parser.push('llo\r')).toEqual([]);
+        expect(parser.push('\n\r\n')).toEqual([{ type: 'message', data: 'hello', id: '' }]);
+    });
+
+    test('reports retry and ignores blocks without data', () => {
+        const onRetry = vi.fn();
+        const parser = createEventStreamParser(onRetry);
+
+        expect(parser.push('retry: 2500\nid: 3\n\nretry: soon\n\n')).toEqual([]);
+        expect(onRetry).toHaveBeenCalledTimes(1);
+        expect(onRetry).toHaveBeenCalledWith(2500);
+        expect(parser.lastEventId).toBe('3');
+    });
+});
+
+describe('createEventSource', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    test('yields events and sends event-stream headers', async () => {
+        mockFetch.mockResolvedValueOnce(stream(['data: a\n\n', 'event: b\ndata: {"x":1}\n\n'], { open: true }));
+
+        const source = createEventSource('https://example.com/stream', { headers: { Authorization: 'Bearer t' } });
+        const received: string[] = [];
+        for await (const event of source) {
+            received.push(`${event.type}:${event.data}`);
+            if (received.length === 2) break;
+        }
+
+        expect(received).toEqual(['message:a', 'b:{"x":1}']);
+        expect(sentHeaders(0).get('Accept')).toBe('text/event-stream');
+        expect(sentHeaders(0).get('Authorization')).toBe('Bearer t');
+        expect(sentHeaders(0).has('Last-Event-ID')).toBe(false);
+    });
+
+    test('reconnects when the stream ends and resumes with Last-Event-ID', async () => {
+        mockFetch
+            .mockResolvedValueOnce(stream(['retry: 0\nid: 1\ndata: first\n\n']))
+            .mockResolvedValueOnce(stream(['id: 2\ndata: second\n\n'], { open: true }));
+
+        const source = createEventSource('https://example.com/stream', { lastEventId: '0' });
+        const data: string[] = [];
+        for await (const event of source) {
+            data.push(event.data);
+            if (data.length === 2) break;
+        }
+
+        expect(data).toEqual(['first', 'second']);
+        expect(sentHeaders(0).get('Last-Event-ID')).toBe('0');
+        expect(sentHeaders(1).get('Last-Event-ID')).toBe('1');
+        expect(source.lastEventId).toBe('2');
+    });
+
+    test('ends when the server answers 204', async () => {
+        mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+        const events = [];
+        for await (const event of createEventSource('https://example.com/stream')) events.push(event);
+
+        expect(events).toEqual([]);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('rejects responses that are not an event stream', async () => {
+        mockFetch.mockResolvedValueOnce(new Response('{}', { headers: { 'Content-Type': 'application/json' } }));
+
+        const iterator = createEventSource('https://example.com/stream')[Symbol.asyncIterator]();
+
+        const error = await iterator.next().catch(e => e);
+        expect(error).toBeInstanceOf(ResilientFetchError);
+        expect(error.message).toContain('application/json');
+    });
+
+    test('rejects with client errors instead of reconnecting', async () => {
+        mockFetch.mockImplementation(async () => new Response('denied', { status: 401 }));
+
+        const iterator = createEventSource('https://example.com/stream', { retryDelay: 0 })[Symbol.asyncIterator]();
+
+        const error = await iterator.next().catch(e => e);
+        expect(error).toBeInstanceOf(HttpError);
+        expect(error.status).toBe(401);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('close before iterating releases the caller signal', () => {
+        const controller = new AbortController();
+        const remove = vi.spyOn(controller.signal, 'removeEventListener');
+
+        createEventSource('https://example.com/stream', { signal: controller.signal }).close();
+
+        expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('close ends iteration while waiting for events', async () => {
+        mockFetch.mockResolvedValueOnce(stream(['data: a\n\n'], { open: true }));
+
+        const source = createEventSource('https://example.com/stream');
+        const iterator = source[Symbol.asyncIterator]();
+        expect((await iterator.next()).value.data).toBe('a');
+
+        const pending = iterator.next();
+        source.close();
+
+        expect(await pending).toEqual({ done: true, value: undefined });
+    });
+
+    test('gives up after maxReconnects connections without events', async () => {
+        mockFetch.mockImplementation(async () => stream([]));
+
+        const iterator = createEventSource('https://example.com/stream', {
+            maxReconnects: 2,
+            retryDelay: 0
+        })[Symbol.asyncIterator]();
+
+        await expect(iterator.next()).rejects.toBeInstanceOf(NetworkError);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    describe('with fake timers', () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        test('waits for the server retry time instead of retryDelay', async () => {
+            mockFetch
+                .mockResolvedValueOnce(stream(['retry: 300\ndata: a\n\n']))
+                .mockResolvedValueOnce(stream(['data: b\n\n'], { open: true }));
+
+            const iterator = createEventSource('https://example.com/stream', { retryDelay: 10000 })[Symbol.asyncIterator]();
+            expect((await iterator.next()).value.data).toBe('a');
+
+            const next = iterator.next();
+            await vi.advanceTimersByTimeAsync(299);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+
+            await vi.advanceTimersByTimeAsync(1);
+            expect((await next).value.data).toBe('b');
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            await iterator.return();
+        });
+
+        test('caps the server retry time at maxRetryDelay', async () => {
+            mockFetch
+                .mockResolvedValueOnce(stream(['retry: 3600000\ndata: a\n\n']))
+                .mockResolvedValueOnce(stream(['data: b\n\n'], { open: true }));
+
+            const iterator = createEventSource('https://example.com/stream', { maxRetryDelay: 500 })[Symbol.asyncIterator]();
+            await iterator.next();
+
+            const next = iterator.next();
+            await vi.advanceTimersByTimeAsync(500);
+
+            expect((await next).value.data).toBe('b');
+            await iterator.return();
+        });
+
+        test('backs off with the configured strategy without a retry field', async () => {
+            mockFetch
+                .mockResolvedValueOnce(stream(['data: a\n\n']))
+                .mockResolvedValueOnce(stream([]))
+                .mockResolvedValueOnce(stream(['data: b\n\n'], { open: true }));
+
+            const iterator = createEventSource('https://example.com/stream', { retryDelay: 1000 })[Symbol.asyncIterator]();
+            await iterator.next();
+
+            const next = iterator.next();
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            await vi.advanceTimersByTimeAsync(1000);
+
+            expect((await next).value.data).toBe('b');
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+            await iterator.return();
+        });
+
+        test('retries failed reconnections until one succeeds', async () => {
+            mockFetch
+                .mockResolvedValueOnce(stream(['id: 1\ndata: a\n\n']))
+                .mockRejectedValueOnce(new TypeError('fetch failed'))
+                .mockRejectedValueOnce(new TypeError('fetch failed'))
+                .mockRejectedValueOnce(new TypeError('fetch failed'))
+                .mockResolvedValueOnce(stream(['data: b\n\n'], { open: true }));
+
+            const iterator = createEventSource('https://example.com/stream', {
+                retries: 0,
+                retryDelay: 1000,
+                maxReconnects: 4
+            })[Symbol.asyncIterator]();
+            expect((await iterator.next()).value.data).toBe('a');
+
+            const next = iterator.next();
+            for (let call = 2; call <= 4; call++) {
+                await vi.advanceTimersByTimeAsync(1000);
+                expect(mockFetch).toHaveBeenCalledTimes(call);
+            }
+            await vi.advanceTimersByTimeAsync(1000);
+
+            expect((await next).value.data).toBe('b');
+            expect(mockFetch).toHaveBeenCalledTimes(5);
+            expect(sentHeaders(4).get('Last-Event-ID')).toBe('1');
+            await iterator.return();
+        });
+    });
+});
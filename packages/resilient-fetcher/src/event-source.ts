@@ -0,0 +1,264 @@
+import { calculateDelay, resilientFetch } from './resilient-fetch.js';
+import { linkSignal, sleep } from './abort.js';
+import { CircuitOpenError, HttpError, NetworkError, ResilientFetchError } from './errors.js';
+import type { ResilientRequestInit } from './types.js';
+
+/**
+ * An event dispatched from a `text/event-stream`.
+ */
+export interface ServerSentEvent {
+    /** Event type (default: 'message') */
+    type: string;
+    /** Data lines joined with '\n' */
+    data: string;
+    /** Last event id seen on the stream, carried over from earlier events */
+    id: string;
+}
+
+export interface EventStreamParser {
+    /** Feeds decoded text and returns the events it completes */
+    push: (chunk: string) => ServerSentEvent[];
+    /** Last event id seen, including ids sent without data */
+    readonly lastEventId: string;
+}
+
+/**
+ * Creates an incremental parser for the `text/event-stream` format.
+ * `onRetry` receives the reconnection time from `retry:` fields.
+ */
+export function createEventStreamParser(onRetry?: (ms: number) => void, lastEventId = ''): EventStreamParser {
+    let buffer = '';
+    let started = false;
+    let type = '';
+    let data: string[] = [];
+
+    const processLine = (line: string, events: ServerSentEvent[]) => {
+        if (line === '') {
+            if (data.length > 0) {
+                events.push({ type: type || 'message', data: data.join('\n'), id: lastEventId });
+            }
+            type = '';
+            data = [];
+            return;
+        }
+        if (line.startsWith(':')) return;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        switch (field) {
+            case 'event':
+                type = value;
+                break;
+            case 'data':
+                data.push(value);
+                break;
+            case 'id':
+                if (!value.includes('\0')) lastEventId = value;
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) onRetry?.(Number(value));
+                break;
+        }
+    };
+
+    return {
+        push(chunk) {
+            buffer += chunk;
+            if (!started && buffer.length > 0) {
+                started = true;
+                if (buffer.startsWith('\uFEFF')) buffer = buffer.slice(1);
+            }
+
+            const events: ServerSentEvent[] = [];
+            let match: RegExpExecArray | null;
+            const lineBreak = /\r\n|\r|\n/g;
+            let consumed = 0;
+            while ((match = lineBreak.exec(buffer)) !== null) {
+                // A trailing \r may be the first half of \r\n; wait for the next chunk
+                if (match[0] === '\r' && match.index === buffer.length - 1) break;
+                processLine(buffer.slice(consumed, match.index), events);
+                consumed = match.index + match[0].length;
+            }
+            buffer = buffer.slice(consumed);
+            return events;
+        },
+        get lastEventId() {
+            return lastEventId;
+        }
+    };
+}
+
+/**
+ * Whether a failed connection is worth retrying: client errors other than
+ * 408 and 429, and an open circuit, end the stream like they end an EventSource.
+ */
+function isFatalConnectionError(error: unknown): boolean {
+    if (error instanceof CircuitOpenError) return true;
+    return error instanceof HttpError && error.status >= 400 && error.status < 500 && error.status !== 408 && error.status !== 429;
+}
+
+export interface EventSourceOptions extends Omit<ResilientRequestInit, 'dedupe' | 'httpCache' | 'resumable' | 'onDownloadProgress'> {
+    /** Sent as Last-Event-ID on the first connection, e.g. to resume a previous session */
+    lastEventId?: string;
+    /** Reconnections allowed in a row without receiving an event (default: Infinity) */
+    maxReconnects?: number;
+    /** Called each time a connection is established */
+    onOpen?: (response: Response) => void;
+}
+
+export interface EventSourceClient extends AsyncIterable<ServerSentEvent> {
+    /** Id of the last event received, sent as Last-Event-ID when reconnecting */
+    readonly lastEventId: string;
+    /** Closes the connection and ends iteration */
+    close: () => void;
+}
+
+/**
+ * Connects to a Server-Sent Events endpoint with fetch, so custom headers,
+ * methods and bodies work. Each connection is made with resilientFetch;
+ * when the stream drops or ends, it reconnects after the `retry:` time the
+ * server last sent, or the configured backoff, resuming with Last-Event-ID.
+ * Connections that fail are retried the same way, except for client errors
+ * (4xx other than 408 and 429) and an open circuit, which are thrown. A 204
+ * response ends the stream.
+ *
+ * @example
+ * const events = createEventSource('https://api.example.com/stream', {
+ *   headers: { Authorization: `Bearer ${token}` },
+ *   retryDelay: 2000,
+ *   backoff: 'exponential'
+ * });
+ *
+ * for await (const event of events) {
+ *   if (event.type === 'done') break; // closes the connection
+ *   console.log(JSON.parse(event.data));
+ * }
+ */
+export function createEventSource(url: string | URL, options: EventSourceOptions = {}): EventSourceClient {
+    const {
+        lastEventId: initialEventId = '',
+        maxReconnects = Infinity,
+        onOpen,
+        signal,
+        retryDelay = 1000,
+        backoff = 'fixed',
+        maxRetryDelay = 60000,
+        ...init
+    } = options;
+    const target = url.toString();
+    const controller = new AbortController();
+    const unlink = linkSignal(signal, controller);
+    let lastEventId = initialEventId;
+    let serverRetry: number | null = null;
+
+    async function* connect(): AsyncGenerator<ServerSentEvent, void, undefined> {
+        let reconnects = 0;
+
+        /** Waits out the reconnection delay; false when closed while waiting */
+        const waitToReconnect = async (cause: unknown): Promise<boolean> => {
+            reconnects++;
+            if (reconnects > maxReconnects) {
+                throw new NetworkError({ url: target, attempts: [], cause });
+            }
+
+            // The server's retry: time is capped like a Retry-After header
+            const delay = calculateDelay(reconnects, retryDelay, backoff, maxRetryDelay, serverRetry);
+            try {
+                await sleep(delay, controller.signal);
+                return true;
+            } catch {
+                return false;
+            }
+        };
+
+        try {
+            while (!controller.signal.aborted) {
+                const headers = new Headers(init.headers);
+                headers.set('Accept', 'text/event-stream');
+                headers.set('Cache-Control', 'no-cache');
+                if (lastEventId) headers.set('Last-Event-ID', lastEventId);
+
+                let response: Response;
+                try {
+                    response = await resilientFetch(target, {
+                        ...init,
+                        retryDelay,
+                        backoff,
+                        maxRetryDelay,
+                        headers,
+                        signal: controller.signal
+                    });
+                } catch (error) {
+                    if (controller.signal.aborted) return;
+                    if (isFatalConnectionError(error)) throw error;
+                    // Other failed connections are retried like a dropped stream
+                    if (!(await waitToReconnect(error))) return;
+                    continue;
+                }
+
+                if (response.status === 204) return;
+                const contentType = response.headers.get('content-type') ?? '';
+                if (!response.body || !contentType.toLowerCase().startsWith('text/event-stream')) {
+                    await response.body?.cancel();
+                    throw new ResilientFetchError(`Expected text/event-stream, got ${contentType || 'no content type'}`, {
+                        url: target,
+                        attempts: []
+                    });
+                }
+                onOpen?.(response);
+
+                const parser = createEventStreamParser(ms => {
+                    serverRetry = ms;
+                }, lastEventId);
+                const decoder = new TextDecoder();
+                const reader = response.body.getReader();
+                // close() must also end a read that is waiting for the server
+                const cancel = () => {
+                    reader.cancel().catch(() => { });
+                };
+                controller.signal.addEventListener('abort', cancel, { once: true });
+                let dropped: unknown = null;
+                try {
+                    while (true) {
+                        const { done, value } = await reader.read();
+                        if (done) break;
+                        const parsed = parser.push(decoder.decode(value, { stream: true }));
+                        lastEventId = parser.lastEventId;
+                        for (const event of parsed) {
+                            reconnects = 0;
+                            yield event;
+                        }
+                    }
+                } catch (error) {
+                    dropped = error;
+                } finally {
+                    controller.signal.removeEventListener('abort', cancel);
+                    cancel();
+                }
+                if (controller.signal.aborted) return;
+
+                if (!(await waitToReconnect(dropped ?? new Error('Event stream closed by the server')))) return;
+            }
+        } finally {
+            controller.abort();
+            unlink();
+        }
+    }
+
+    const events = connect();
+
+    return {
+        [Symbol.asyncIterator]: () => events,
+        get lastEventId() {
+            return lastEventId;
+        },
+        close: () => {
+            controller.abort();
+            // connect() unlinks when it finishes, but never runs if iteration hasn't started
+            unlink();
+        }
+    };
+}
@@ -0,0 +1,122 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { createFetcher, HttpError, type Middleware } from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe('createFetcher', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+        mockFetch.mockResolvedValue({ ok: true, status: 200 });
+    });
+
+    test('prefixes relative paths with baseURL', async () => {
+        const api = createFetcher({ baseURL: 'https://api.example.com/v1/' });
+
+        await api.get('/users');
+        await api.get('https://other.example.com/ping');
+
+        expect(mockFetch.mock.calls[0][0]).toBe('https://api.example.com/v1/users');
+        expect(mockFetch.mock.calls[1][0]).toBe('https://other.example.com/ping');
+    });
+
+    test('merges default and per-request headers', async () => {
+        const api = createFetcher({ headers: { Authorization: 'Bearer token', Accept: 'text/plain' } });
+
+        await api.get('https://example.com', { headers: { Accept: 'application/json' } });
+
+        const headers: Headers = mockFetch.mock.calls[0][1].headers;
+        expect(headers.get('Authorization')).toBe('Bearer token');
+        expect(headers.get('Accept')).toBe('application/json');
+    });
+
+    test('method helpers set method and body', async () => {
+        const api = createFetcher();
+
+        await api.post('https://example.com', 'a');
+        await api.put('https://example.com', 'b');
+        await api.patch('https://example.com', 'c');
+        await api.delete('https://example.com');
+
+        expect(mockFetch.mock.calls.map(([, init]) => [init.method, init.body])).toEqual([
+            ['POST', 'a'],
+            ['PUT', 'b'],
+            ['PATCH', 'c'],
+            ['DELETE', undefined]
+        ]);
+    });
+
+    test('passes default resilient options to resilientFetch', async () => {
+        mockFetch.mockReset();
+        mockFetch.mockResolvedValue({ ok: false, status: 500 });
+        const api = createFetcher({ retries: 0 });
+
+        await expect(api.get('https://example.com')).rejects.toBeInstanceOf(HttpError);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('runs middleware phases in order', async () => {
+        const calls: string[] = [];
+        const tag = (name: string): Middleware => ({
+            onRequest: ({ init }) => {
+                calls.push(`${name}:request`);
+                init.headers.append('X-Chain', name);
+            },
+            onResponse: () => {
+                calls.push(`${name}:response`);
+            }
+        });
+        const api = createFetcher({ middleware: [tag('a'), tag('b')] });
+
+        await api.get('https://example.com');
+
+        expect(calls).toEqual(['a:request', 'b:request', 'a:response', 'b:response']);
+        expect(mockFetch.mock.calls[0][1].headers.get('X-Chain')).toBe('a, b');
+    });
+
+    test('onResponse can replace the response', async () => {
+        const replacement = new Response('cached');
+        const api = createFetcher({ middleware: [{ onResponse: () => replacement }] });
+
+        expect(await api.get('https://example.com')).toBe(replacement);
+    });
+
+    test('onError can recover with a response or replace the error', async () => {
+        mockFetch.mockReset();
+        mockFetch.mockRejectedValue(new Error('offline'));
+        const fallback = new Response('fallback');
+
+        const recovering = createFetcher({ retries: 0, middleware: [{ onError: () => fallback }] });
+        expect(await recovering.get('https://example.com')).toBe(fallback);
+
+        const replacing = createFetcher({
+            retries: 0,
+            middleware: [{ onError: (error) => { throw new Error(`wrapped: ${error.message}`); } }]
+        });
+        await expect(replacing.get('https://example.com')).rejects.toThrow('wrapped: offline');
+    });
+
+    test('extend inherits defaults and appends middleware', async () => {
+        const calls: string[] = [];
+        const parent = createFetcher({
+            baseURL: 'https://api.example.com',
+            headers: { Authorization: 'Bearer token' },
+            middleware: [{ onRequest: () => { calls.push('parent'); } }]
+        });
+        const child = parent.extend({
+            headers: { 'X-Tenant': 'acme' },
+            middleware: [{ onRequest: () => { calls.push('child'); } }]
+        });
+
+        await child.get('/users');
+
+        const [url, init] = mockFetch.mock.calls[0];
+        expect(url).toBe('https://api.example.com/users');
+        expect(init.headers.get('Authorization')).toBe('Bearer token');
+        expect(init.headers.get('X-Tenant')).toBe('acme');
+        expect(calls).toEqual(['parent', 'child']);
+
+        await parent.get('/users');
+        expect(mockFetch.mock.calls[1][1].headers.has('X-Tenant')).toBe(false);
+    });
+});
@@ -0,0 +1,152 @@
+import { resilientFetch } from './resilient-fetch.js';
+import type { ResilientRequestInit } from './types.js';
+
+/**
+ * A request as seen by middleware. Headers are always a Headers instance
+ * so middleware can read and modify them directly.
+ */
+export interface RequestContext {
+    url: string;
+    init: ResilientRequestInit & { headers: Headers };
+}
+
+/**
+ * A middleware can hook into any of the three phases. Each phase runs in
+ * registration order, parent instance middleware first.
+ */
+export interface Middleware {
+    /** Runs before the request is sent. Return a new context or mutate the given one. */
+    onRequest?: (context: RequestContext) => RequestContext | void | Promise<RequestContext | void>;
+    /** Runs after a successful response. Return a replacement Response or nothing. */
+    onResponse?: (response: Response, context: RequestContext) => Response | void | Promise<Response | void>;
+    /** Runs when the request fails. Return a Response to recover, or throw to replace the error. */
+    onError?: (error: Error, context: RequestContext) => Response | void | Promise<Response | void>;
+}
+
+export interface FetcherConfig extends Omit<ResilientRequestInit, 'body' | 'method' | 'signal'> {
+    /** Prefix for relative request paths */
+    baseURL?: string;
+    /** Middleware chain, applied in order */
+    middleware?: Middleware[];
+}
+
+export type BodyRequestInit = Omit<ResilientRequestInit, 'body' | 'method'>;
+
+export interface Fetcher {
+    /** Resolved configuration of this instance */
+    readonly config: Readonly<FetcherConfig>;
+    /** Sends a request through the middleware chain */
+    request: (path: string, init?: ResilientRequestInit) => Promise<Response>;
+    get: (path: string, init?: BodyRequestInit) => Promise<Response>;
+    delete: (path: string, init?: BodyRequestInit) => Promise<Response>;
+    post: (path: string, body?: BodyInit | null, init?: BodyRequestInit) => Promise<Response>;
+    put: (path: string, body?: BodyInit | null, init?: BodyRequestInit) => Promise<Response>;
+    patch: (path: string, body?: BodyInit | null, init?: BodyRequestInit) => Promise<Response>;
+    /** Creates a child instance that inherits this instance's defaults and middleware */
+    extend: (config?: FetcherConfig) => Fetcher;
+}
+
+/**
+ * Joins a base URL and a path. Absolute paths are returned unchanged.
+ */
+function joinURL(baseURL: string | undefined, path: string): string {
+    if (!baseURL || /^[a-z][a-z\d+\-.]*:/i.test(path)) return path;
+    return `${baseURL.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Merges header sets left to right into a single Headers instance.
+ */
+function mergeHeaders(...sources: (HeadersInit | undefined)[]): Headers {
+    const headers = new Headers();
+    for (const source of sources) {
+        if (!source) continue;
+        new Headers(source).forEach((value, key) => headers.set(key, value));
+    }
+    return headers;
+}
+
+/**
+ * Merges a child config into its parent: headers are combined, middleware is
+ * appended after the parent's, and every other option is overridden.
+ */
+function mergeConfig(parent: FetcherConfig, child: FetcherConfig): FetcherConfig {
+    return {
+        ...parent,
+        ...child,
+        headers: mergeHeaders(parent.headers, child.headers),
+        middleware: [...(parent.middleware ?? []), ...(child.middleware ?? [])]
+    };
+}
+
+/**
+ * Creates a fetcher instance with a base URL, default options and an ordered
+ * middleware chain on top of resilientFetch.
+ *
+ * @example
+ * const api = createFetcher({
+ *   baseURL: 'https://api.example.com',
+ *   headers: { Authorization: `Bearer ${token}` },
+ *   retries: 2,
+ *   middleware: [logger]
+ * });
+ *
+ * const response = await api.get('/users');
+ * const admin = api.extend({ baseURL: 'https://api.example.com/admin' });
+ */
+export function createFetcher(config: FetcherConfig = {}): Fetcher {
+    const resolved = mergeConfig({}, config);
+    const { baseURL, middleware = [], headers, ...defaults } = resolved;
+
+    async function request(path: string, init: ResilientRequestInit = {}): Promise<Response> {
+        let context: RequestContext = {
+            url: joinURL(baseURL, path),
+            init: {
+                ...defaults,
+                ...init,
+                headers: mergeHeaders(headers, init.headers)
+            }
+        };
+
+        try {
+            for (const { onRequest } of middleware) {
+                if (onRequest) context = (await onRequest(context)) ?? context;
+            }
+
+            let response = await resilientFetch(context.url, context.init);
+
+            for (const { onResponse } of middleware) {
+                if (onResponse) response = (await onResponse(response, context)) ?? response;
+            }
+
+            return response;
+        } catch (error) {
+            let err = error as Error;
+            for (const { onError } of middleware) {
+                if (!onError) continue;
+                try {
+                    const recovered = await onError(err, context);
+                    if (recovered) return recovered;
+                } catch (replacement) {
+                    err = replacement as Error;
+                }
+            }
+            throw err;
+        }
+    }
+
+    const withBody = (method: string) =>
+        (path: string, body?: BodyInit | null, init: BodyRequestInit = {}) =>
+            request(path, { ...init, method, body });
+
+    return {
+        config: resolved,
+        request,
+        get: (path, init = {}) => request(path, { ...init, method: 'GET' }),
+        delete: (path, init = {}) => request(path, { ...init, method: 'DELETE' }),
+        post: withBody('POST'),
+        put: withBody('PUT'),
+        patch: withBody('PATCH'),
+        extend: (child = {}) => createFetcher(mergeConfig(resolved, child))
+    };
+}
@@ -0,0 +1,139 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createConcurrencyLimiter, NetworkError, resilientFetch, TimeoutError } from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+/** fetch stub whose calls resolve after the given delays (ms), in call order */
+function delayedResponses(...delays: number[]) {
+    const signals: AbortSignal[] = [];
+    mockFetch.mockImplementation((_url, init) => {
+        const index = signals.push(init.signal) - 1;
+        return new Promise((resolve, reject) => {
+            const id = setTimeout(() => resolve(new Response(`reply ${index + 1}`)), delays[index]);
+            init.signal.addEventListener('abort', () => {
+                clearTimeout(id);
+                reject(new DOMException('Aborted', 'AbortError'));
+            });
+        });
+    });
+    return signals;
+}
+
+describe('hedge', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('does not hedge when the first attempt answers in time', async () => {
+        delayedResponses(50);
+
+        const promise = resilientFetch('https://example.com', { hedge: { delay: 100 } });
+        await vi.advanceTimersByTimeAsync(50);
+
+        expect(await (await promise).text()).toBe('reply 1');
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('starts a parallel attempt after the delay and aborts the loser', async () => {
+        const signals = delayedResponses(1000, 50);
+
+        const promise = resilientFetch('https://example.com', { hedge: { delay: 100 } });
+        await vi.advanceTimersByTimeAsync(150);
+
+        expect(await (await promise).text()).toBe('reply 2');
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        expect(signals[0].aborted).toBe(true);
+        expect(signals[1].aborted).toBe(false);
+    });
+
+    test('respects maxHedges', async () => {
+        delayedResponses(1000, 1000, 1000, 1000);
+
+        const promise = resilientFetch('https://example.com', { hedge: { delay: 100, maxHedges: 2 } });
+        await vi.advanceTimersByTimeAsync(500);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+
+        await vi.advanceTimersByTimeAsync(500);
+        expect(await (await promise).text()).toBe('reply 1');
+    });
+
+    test('leaves early failures to the retry loop instead of hedging', async () => {
+        mockFetch
+            .mockRejectedValueOnce(new TypeError('connection reset'))
+            .mockResolvedValueOnce(new Response('ok'));
+
+        const error = await resilientFetch('https://example.com', { retries: 0, hedge: { delay: 100 } }).catch(e => e);
+        await vi.advanceTimersByTimeAsync(100);
+
+        expect(error).toBeInstanceOf(NetworkError);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('waits for a running hedge when the original fails', async () => {
+        mockFetch
+            .mockImplementationOnce(() => new Promise((_resolve, reject) => {
+                setTimeout(() => reject(new TypeError('connection reset')), 150);
+            }))
+            .mockImplementationOnce(() => new Promise(resolve => setTimeout(() => resolve(new Response('hedge')), 100)));
+
+        const promise = resilientFetch('https://example.com', { retries: 0, hedge: { delay: 100 } });
+        await vi.advanceTimersByTimeAsync(200);
+
+        expect(await (await promise).text()).toBe('hedge');
+    });
+
+    test('hedges take their own concurrency slot', async () => {
+        delayedResponses(1000, 50, 50);
+        const concurrency = createConcurrencyLimiter({ maxConcurrent: 1 });
+
+        const first = resilientFetch('https://example.com/a', { hedge: { delay: 100 }, concurrency });
+        const second = resilientFetch('https://example.com/b', { concurrency });
+        await vi.advanceTimersByTimeAsync(500);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(500);
+        expect(await (await first).text()).toBe('reply 1');
+        await vi.advanceTimersByTimeAsync(100);
+        await second;
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('only hedges safe methods unless unsafe is set', async () => {
+        delayedResponses(1000, 50);
+
+        const post = resilientFetch('https://example.com', { method: 'POST', hedge: { delay: 100 }, timeout: 5000 });
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(await (await post).text()).toBe('reply 1');
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        mockFetch.mockClear();
+        delayedResponses(1000, 50);
+        const unsafe = resilientFetch('https://example.com', {
+            method: 'POST',
+            hedge: { delay: 100, unsafe: true }
+        });
+        await vi.advanceTimersByTimeAsync(150);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        await unsafe;
+    });
+
+    test('the attempt timeout aborts every hedge', async () => {
+        const signals = delayedResponses(10000, 10000);
+
+        const promise = resilientFetch('https://example.com', {
+            retries: 0,
+            timeout: 500,
+            hedge: { delay: 100 }
+        }).catch(e => e);
+        await vi.advanceTimersByTimeAsync(500);
+
+        expect(await promise).toBeInstanceOf(TimeoutError);
+        expect(signals.every(signal => signal.aborted)).toBe(true);
+    });
+});
@@ -0,0 +1,79 @@
+import { linkSignal } from './abort.js';
+
+export interface HedgeOptions {
+    /** Time in ms to wait for an answer before starting a parallel attempt */
+    delay: number;
+    /** Maximum extra attempts started in parallel (default: 1) */
+    maxHedges?: number;
+    /** Allow hedging non-safe methods such as POST (default: false) */
+    unsafe?: boolean;
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Whether a request with this method may be hedged.
+ */
+export function canHedge(method: string | undefined, options: HedgeOptions): boolean {
+    return options.unsafe === true || SAFE_METHODS.includes((method ?? 'GET').toUpperCase());
+}
+
+/**
+ * Sends a request and, if it has not answered within `delay` ms, races
+ * parallel copies of it. The first response wins and the others are aborted.
+ * Copies only start from the delay timer; failures are left to the retry
+ * loop, so the request rejects once every copy started so far has failed.
+ * `send` receives the copy's index, 0 for the original request.
+ */
+export function hedgedFetch(
+    send: (signal: AbortSignal, index: number) => Promise<Response>,
+    signal: AbortSignal,
+    options: HedgeOptions
+): Promise<Response> {
+    const { delay, maxHedges = 1 } = options;
+
+    return new Promise<Response>((resolve, reject) => {
+        const controllers: AbortController[] = [];
+        let pending = 0;
+        let settled = false;
+        let timerId: ReturnType<typeof setTimeout> | undefined;
+
+        const finish = (winner: AbortController | null) => {
+            settled = true;
+            clearTimeout(timerId);
+            for (const controller of controllers) {
+                if (controller !== winner) controller.abort();
+            }
+        };
+
+        const launch = () => {
+            const controller = new AbortController();
+            const unlink = linkSignal(signal, controller);
+            const index = controllers.push(controller) - 1;
+            pending++;
+
+            if (index < maxHedges) {
+                timerId = setTimeout(launch, delay);
+            }
+
+            send(controller.signal, index).then(
+                response => {
+                    unlink();
+                    pending--;
+                    if (settled) return;
+                    finish(controller);
+                    resolve(response);
+                },
+                error => {
+                    unlink();
+                    pending--;
+                    if (settled || pending > 0) return;
+                    finish(null);
+                    reject(error);
+                }
+            );
+        };
+
+        launch();
+    });
+}
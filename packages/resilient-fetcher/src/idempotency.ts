@@ -0,0 +1,40 @@
+/** Methods that can be repeated without changing the outcome (RFC 9110 §9.2.2) */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'TRACE', 'PUT', 'DELETE'];
+
+/**
+ * Whether requests with this method are safe to retry without an idempotency key.
+ */
+export function isIdempotentMethod(method: string | undefined): boolean {
+    return IDEMPOTENT_METHODS.includes((method ?? 'GET').toUpperCase());
+}
+
+/**
+ * Generates a random idempotency key, using crypto.randomUUID where available.
+ */
+export function generateIdempotencyKey(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    let key = '';
+    for (let i = 0; i < 32; i++) {
+        key += Math.floor(Math.random() * 16).toString(16);
+    }
+    return key;
+}
+
+/**
+ * Resolves the idempotency key for an unsafe request: an explicit string, a
+ * generated key when `option` is true, or a key the caller already set in the
+ * headers. Returns null when the caller has not opted in.
+ */
+export function resolveIdempotencyKey(
+    option: boolean | string | undefined,
+    headers: Headers,
+    headerName: string
+): string | null {
+    if (typeof option === 'string') return option;
+    const existing = headers.get(headerName);
+    if (existing) return existing;
+    if (option === true) return generateIdempotencyKey();
+    return null;
+}
@@ -1,5 +1,14 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
-import { resilientFetch } from './index';
+import {
+    resilientFetch,
+    getRetryAfter,
+    ResilientFetchError,
+    HttpError,
+    TimeoutError,
+    NetworkError,
+    AbortedError,
+    isIdempotentMethod
+} from './index';
 
 // Mock global fetch
 const mockFetch = vi.fn();
@@ -77,8 +86,7 @@ describe('resilientFetch', () => {
         expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
-    // TODO: Fix fake timer/AbortController conflict - logic verified working in integration
-    test.skip('does not retry on 4xx by default', async () => {
+    test('does not retry on 4xx by default', async () => {
         mockFetch.mockResolvedValue({ ok: false, status: 404 });
 
         const promise = resilientFetch('https://example.com', {
@@ -179,4 +187,302 @@ describe('resilientFetch', () => {
             await expect(promise).rejects.toThrow('Request timed out');
         });
     });
+
+    describe('Retry-After and rate limits', () => {
+        test('retries 429 by default', async () => {
+            mockFetch
+                .mockResolvedValueOnce({ ok: false, status: 429 })
+                .mockResolvedValueOnce({ ok: true, status: 200 });
+
+            const promise = resilientFetch('https://example.com', {
+                retries: 1,
+                retryDelay: 50
+            });
+
+            await vi.advanceTimersByTimeAsync(50);
+            const response = await promise;
+
+            expect(response.status).toBe(200);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        test('waits for the Retry-After delay', async () => {
+            mockFetch
+                .mockResolvedValueOnce(new Response(null, { status: 503, headers: { 'Retry-After': '2' } }))
+                .mockResolvedValueOnce({ ok: true, status: 200 });
+
+            const promise = resilientFetch('https://example.com', {
+                retries: 1,
+                retryDelay: 50
+            });
+
+            await vi.advanceTimersByTimeAsync(1999);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+
+            await vi.advanceTimersByTimeAsync(1);
+            const response = await promise;
+            expect(response.status).toBe(200);
+        });
+
+        test('caps server-requested delays at maxRetryDelay', async () => {
+            mockFetch
+                .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '7200' } }))
+                .mockResolvedValueOnce({ ok: true, status: 200 });
+
+            const promise = resilientFetch('https://example.com', {
+                retries: 1,
+                maxRetryDelay: 500
+            });
+
+            await vi.advanceTimersByTimeAsync(500);
+            const response = await promise;
+            expect(response.status).toBe(200);
+        });
+
+        test('ignores hints when respectRetryAfter is false', async () => {
+            mockFetch
+                .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '60' } }))
+                .mockResolvedValueOnce({ ok: true, status: 200 });
+
+            const promise = resilientFetch('https://example.com', {
+                retries: 1,
+                retryDelay: 50,
+                respectRetryAfter: false
+            });
+
+            await vi.advanceTimersByTimeAsync(50);
+            const response = await promise;
+            expect(response.status).toBe(200);
+        });
+
+        test('getRetryAfter parses seconds, HTTP-dates and reset headers', () => {
+            const now = Date.parse('2024-01-01T00:00:00Z');
+            const withHeader = (name: string, value: string) =>
+                new Response(null, { status: 429, headers: { [name]: value } });
+
+            expect(getRetryAfter(withHeader('Retry-After', '30'), now)).toBe(30000);
+            expect(getRetryAfter(withHeader('Retry-After', 'Mon, 01 Jan 2024 00:00:10 GMT'), now)).toBe(10000);
+            expect(getRetryAfter(withHeader('RateLimit-Reset', '5'), now)).toBe(5000);
+            expect(getRetryAfter(withHeader('X-RateLimit-Reset', String(now / 1000 + 20)), now)).toBe(20000);
+            expect(getRetryAfter(withHeader('Retry-After', 'soon'), now)).toBeNull();
+            expect(getRetryAfter(new Response(null, { status: 503 }), now)).toBeNull();
+        });
+    });
+
+    describe('typed errors', () => {
+        test('throws HttpError with the final response and attempt history', async () => {
+            const final = new Response('{"error":"down"}', { status: 502, headers: { 'X-Trace': 'abc' } });
+            mockFetch
+                .mockResolvedValueOnce({ ok: false, status: 500 })
+                .mockResolvedValueOnce(final);
+
+            const promise = resilientFetch('https://example.com/api', {
+                retries: 1,
+                retryDelay: 100
+            }).catch(e => e);
+
+            await vi.advanceTimersByTimeAsync(100);
+            const error = await promise;
+
+            expect(error).toBeInstanceOf(HttpError);
+            expect(error).toBeInstanceOf(ResilientFetchError);
+            expect(error.status).toBe(502);
+            expect(error.response).toBe(final);
+            expect(error.response.headers.get('X-Trace')).toBe('abc');
+            expect(await error.response.json()).toEqual({ error: 'down' });
+            expect(error.url).toBe('https://example.com/api');
+            expect(error.attemptCount).toBe(2);
+            expect(error.attempts.map((a: { outcome: string; status?: number }) => [a.outcome, a.status])).toEqual([
+                ['http-error', 500],
+                ['http-error', 502]
+            ]);
+        });
+
+        test('wraps fetch rejections in NetworkError with cause', async () => {
+            const cause = new TypeError('fetch failed');
+            mockFetch.mockRejectedValue(cause);
+
+            const error = await resilientFetch('https://example.com', { retries: 0 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(NetworkError);
+            expect(error.message).toBe('fetch failed');
+            expect(error.cause).toBe(cause);
+            expect(error.attempts).toHaveLength(1);
+            expect(error.attempts[0].outcome).toBe('network-error');
+            expect(error.attempts[0].duration).toBeGreaterThanOrEqual(0);
+        });
+
+        test('throws TimeoutError when the attempt times out', async () => {
+            mockFetch.mockImplementation((_url, options) => new Promise((_resolve, reject) => {
+                options.signal.addEventListener('abort', () => {
+                    reject(new DOMException('Aborted', 'AbortError'));
+                });
+            }));
+
+            const promise = resilientFetch('https://example.com', { retries: 0, timeout: 100 }).catch(e => e);
+            await vi.advanceTimersByTimeAsync(100);
+            const error = await promise;
+
+            expect(error).toBeInstanceOf(TimeoutError);
+            expect(error.timeout).toBe(100);
+            expect(error.attempts[0]).toMatchObject({ outcome: 'timeout', duration: 100 });
+        });
+
+        test('does not retry aborts that did not come from the timeout', async () => {
+            mockFetch.mockRejectedValue(new DOMException('Aborted', 'AbortError'));
+
+            const error = await resilientFetch('https://example.com', { retries: 3 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(AbortedError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('caller AbortSignal', () => {
+        const hangingFetch = (_url: string, options: RequestInit) => new Promise((_resolve, reject) => {
+            options.signal!.addEventListener('abort', () => {
+                reject(new DOMException('Aborted', 'AbortError'));
+            });
+        });
+
+        test('cancels an in-flight attempt', async () => {
+            mockFetch.mockImplementation(hangingFetch);
+            const controller = new AbortController();
+
+            const promise = resilientFetch('https://example.com', {
+                retries: 3,
+                timeout: 5000,
+                signal: controller.signal
+            }).catch(e => e);
+
+            await vi.advanceTimersByTimeAsync(10);
+            controller.abort();
+            const error = await promise;
+
+            expect(error).toBeInstanceOf(AbortedError);
+            expect(error.attempts[0].outcome).toBe('aborted');
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        test('cancels a pending backoff sleep', async () => {
+            mockFetch.mockResolvedValue({ ok: false, status: 503 });
+            const controller = new AbortController();
+
+            const promise = resilientFetch('https://example.com', {
+                retries: 3,
+                retryDelay: 10000,
+                signal: controller.signal
+            }).catch(e => e);
+
+            await vi.advanceTimersByTimeAsync(10);
+            controller.abort(new Error('user cancelled'));
+            const error = await promise;
+
+            expect(error).toBeInstanceOf(AbortedError);
+            expect(error.cause).toEqual(new Error('user cancelled'));
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        test('rejects without fetching when already aborted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            const error = await resilientFetch('https://example.com', { signal: controller.signal }).catch(e => e);
+
+            expect(error).toBeInstanceOf(AbortedError);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        test('still applies the per-attempt timeout', async () => {
+            mockFetch.mockImplementation(hangingFetch);
+            const controller = new AbortController();
+
+            const promise = resilientFetch('https://example.com', {
+                retries: 0,
+                timeout: 100,
+                signal: controller.signal
+            }).catch(e => e);
+
+            await vi.advanceTimersByTimeAsync(100);
+            expect(await promise).toBeInstanceOf(TimeoutError);
+        });
+    });
+
+    describe('idempotency', () => {
+        test('does not retry POST by default', async () => {
+            mockFetch.mockResolvedValue({ ok: false, status: 503 });
+
+            const error = await resilientFetch('https://example.com', {
+                method: 'POST',
+                retries: 3
+            }).catch(e => e);
+
+            expect(error).toBeInstanceOf(HttpError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        test('retries idempotent methods such as PUT and DELETE', async () => {
+            mockFetch
+                .mockResolvedValueOnce({ ok: false, status: 503 })
+                .mockResolvedValueOnce({ ok: true, status: 200 });
+
+            const promise = resilientFetch('https://example.com', { method: 'PUT', retries: 1, retryDelay: 10 });
+            await vi.advanceTimersByTimeAsync(10);
+
+            expect((await promise).status).toBe(200);
+            expect(isIdempotentMethod('delete')).toBe(true);
+            expect(isIdempotentMethod('PATCH')).toBe(false);
+        });
+
+        test('reuses one generated Idempotency-Key across every attempt', async () => {
+            mockFetch
+                .mockResolvedValueOnce({ ok: false, status: 503 })
+                .mockRejectedValueOnce(new Error('reset'))
+                .mockResolvedValueOnce({ ok: true, status: 201 });
+
+            const promise = resilientFetch('https://example.com/orders', {
+                method: 'POST',
+                body: '{}',
+                retries: 2,
+                retryDelay: 10,
+                idempotencyKey: true
+            });
+            await vi.advanceTimersByTimeAsync(20);
+
+            expect((await promise).status).toBe(201);
+            const keys = mockFetch.mock.calls.map(([, init]) => init.headers.get('Idempotency-Key'));
+            expect(keys).toHaveLength(3);
+            expect(keys[0]).toMatch(/^[0-9a-f-]{32,36}$/);
+            expect(new Set(keys).size).toBe(1);
+        });
+
+        test('uses a caller-provided key and header name', async () => {
+            mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+            await resilientFetch('https://example.com', {
+                method: 'PATCH',
+                idempotencyKey: 'order-42',
+                idempotencyHeader: 'X-Request-Id'
+            });
+
+            expect(mockFetch.mock.calls[0][1].headers.get('X-Request-Id')).toBe('order-42');
+        });
+
+        test('treats an Idempotency-Key header set by the caller as opting in', async () => {
+            mockFetch
+                .mockResolvedValueOnce({ ok: false, status: 500 })
+                .mockResolvedValueOnce({ ok: true, status: 200 });
+
+            const promise = resilientFetch('https://example.com', {
+                method: 'POST',
+                retries: 1,
+                retryDelay: 10,
+                headers: { 'Idempotency-Key': 'abc' }
+            });
+            await vi.advanceTimersByTimeAsync(10);
+
+            expect((await promise).status).toBe(200);
+            expect(mockFetch.mock.calls[1][1].headers.get('Idempotency-Key')).toBe('abc');
+        });
+    });
 });
@@ -0,0 +1,86 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { fetchJson, ValidationError } from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const jsonResponse = (data: unknown, status = 200) =>
+    new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('fetchJson', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    test('parses the JSON response', async () => {
+        mockFetch.mockResolvedValueOnce(jsonResponse({ id: 1 }));
+
+        const data = await fetchJson<{ id: number }>('https://example.com/item');
+
+        expect(data).toEqual({ id: 1 });
+        expect(mockFetch.mock.calls[0][1].headers.get('Accept')).toBe('application/json');
+    });
+
+    test('serializes object bodies and sets Content-Type', async () => {
+        mockFetch.mockResolvedValueOnce(jsonResponse({ ok: true }, 201));
+
+        await fetchJson('https://example.com/items', { method: 'POST', body: { name: 'Ada' } });
+
+        const init = mockFetch.mock.calls[0][1];
+        expect(init.body).toBe('{"name":"Ada"}');
+        expect(init.headers.get('Content-Type')).toBe('application/json');
+    });
+
+    test('passes non-JSON bodies through untouched', async () => {
+        mockFetch.mockResolvedValueOnce(jsonResponse({}));
+        const form = new URLSearchParams({ a: '1' });
+
+        await fetchJson('https://example.com', { method: 'POST', body: form });
+
+        const init = mockFetch.mock.calls[0][1];
+        expect(init.body).toBe(form);
+        expect(init.headers.has('Content-Type')).toBe(false);
+    });
+
+    test('returns undefined for empty bodies', async () => {
+        mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+        mockFetch.mockResolvedValueOnce(new Response('', { status: 200 }));
+
+        expect(await fetchJson('https://example.com')).toBeUndefined();
+        expect(await fetchJson('https://example.com')).toBeUndefined();
+    });
+
+    test('accepts schema-style validators', async () => {
+        mockFetch.mockResolvedValueOnce(jsonResponse({ id: '1' }));
+        const schema = {
+            parse: (data: unknown) => ({ id: Number((data as { id: string }).id) })
+        };
+
+        expect(await fetchJson('https://example.com', { validate: schema })).toEqual({ id: 1 });
+    });
+
+    test('throws ValidationError with the payload when a schema rejects', async () => {
+        mockFetch.mockResolvedValueOnce(jsonResponse({ id: 'x' }));
+        const issue = new Error('id: expected number');
+        const schema = { parse: () => { throw issue; } };
+
+        const error = await fetchJson('https://example.com/item', { validate: schema }).catch(e => e);
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.payload).toEqual({ id: 'x' });
+        expect(error.cause).toBe(issue);
+        expect(error.url).toBe('https://example.com/item');
+        expect(error.message).toContain('id: expected number');
+    });
+
+    test('throws ValidationError when a type guard rejects', async () => {
+        mockFetch.mockResolvedValueOnce(jsonResponse([1, 2]));
+        const isUser = (data: unknown): data is { name: string } =>
+            typeof data === 'object' && data !== null && 'name' in data;
+
+        const error = await fetchJson('https://example.com', { validate: isUser }).catch(e => e);
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.payload).toEqual([1, 2]);
+    });
+});
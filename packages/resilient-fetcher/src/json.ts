@@ -0,0 +1,93 @@
+import { resilientFetch } from './resilient-fetch.js';
+import { ValidationError } from './errors.js';
+import type { ResilientRequestInit } from './types.js';
+
+/**
+ * Validates a parsed payload. Either a schema with a `parse` method
+ * (zod, valibot wrappers, ...) or a type guard / predicate function.
+ */
+export type Validator<T> =
+    | { parse: (data: unknown) => T }
+    | ((data: unknown) => data is T)
+    | ((data: unknown) => boolean);
+
+export interface JsonRequestInit<T> extends Omit<ResilientRequestInit, 'body'> {
+    /** Request body; plain objects and arrays are serialized as JSON */
+    body?: BodyInit | Record<string, unknown> | unknown[] | null;
+    /** Validates the parsed response before it is returned */
+    validate?: Validator<T>;
+}
+
+/**
+ * Checks whether a body should be serialized as JSON rather than passed to fetch as-is.
+ */
+function isJsonBody(body: unknown): body is Record<string, unknown> | unknown[] {
+    if (Array.isArray(body)) return true;
+    if (body === null || typeof body !== 'object') return false;
+    const proto = Object.getPrototypeOf(body);
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Runs a validator, returning the validated value or throwing ValidationError.
+ */
+function runValidator<T>(validate: Validator<T>, payload: unknown, url: string, response: Response): T {
+    if (typeof validate === 'function') {
+        if (validate(payload)) return payload as T;
+        throw new ValidationError(url, payload, response);
+    }
+    try {
+        return validate.parse(payload);
+    } catch (error) {
+        throw new ValidationError(url, payload, response, error);
+    }
+}
+
+/**
+ * Parses a JSON response body. Empty bodies (204, 205 or no content) yield undefined.
+ */
+export async function readJson(response: Response): Promise<unknown> {
+    const text = response.status === 204 || response.status === 205 ? '' : await response.text();
+    return text.trim() === '' ? undefined : JSON.parse(text);
+}
+
+/**
+ * Fetches JSON with resilientFetch: serializes object bodies, sets content
+ * headers, parses the response (empty bodies such as 204 yield undefined)
+ * and optionally validates it.
+ *
+ * @example
+ * const user = await fetchJson<User>('/api/users', {
+ *   method: 'POST',
+ *   body: { name: 'Ada' },
+ *   validate: UserSchema
+ * });
+ */
+export async function fetchJson<T = unknown>(
+    url: string | URL | Request,
+    options: JsonRequestInit<T> = {}
+): Promise<T> {
+    const { body, validate, ...rest } = options;
+    const headers = new Headers(rest.headers);
+
+    if (!headers.has('Accept')) {
+        headers.set('Accept', 'application/json');
+    }
+
+    let requestBody = body as BodyInit | null | undefined;
+    if (isJsonBody(body)) {
+        requestBody = JSON.stringify(body);
+        if (!headers.has('Content-Type')) {
+            headers.set('Content-Type', 'application/json');
+        }
+    }
+
+    const response = await resilientFetch(url, { ...rest, headers, body: requestBody });
+
+    const payload = await readJson(response);
+
+    if (validate) {
+        return runValidator(validate, payload, url.toString(), response);
+    }
+    return payload as T;
+}
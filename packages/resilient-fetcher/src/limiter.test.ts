@@ -0,0 +1,70 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { createConcurrencyLimiter, resilientFetch, AbortedError } from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe('createConcurrencyLimiter', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    test('queues beyond maxConcurrent and releases in FIFO order', async () => {
+        const limiter = createConcurrencyLimiter({ maxConcurrent: 1 });
+        const order: number[] = [];
+
+        const release1 = await limiter.acquire('https://a.example.com');
+        const second = limiter.acquire('https://a.example.com').then(release => { order.push(2); return release; });
+        const third = limiter.acquire('https://a.example.com').then(release => { order.push(3); return release; });
+        expect(limiter.stats('https://a.example.com')).toEqual({ active: 1, queued: 2 });
+
+        release1();
+        (await second)();
+        (await third)();
+
+        expect(order).toEqual([2, 3]);
+        expect(limiter.stats('https://a.example.com')).toEqual({ active: 0, queued: 0 });
+    });
+
+    test('limits each origin independently', async () => {
+        const limiter = createConcurrencyLimiter({ maxConcurrent: 1 });
+
+        await limiter.acquire('https://a.example.com');
+        await limiter.acquire('https://b.example.com');
+
+        expect(limiter.stats('https://b.example.com').active).toBe(1);
+    });
+
+    test('caps in-flight requests through resilientFetch', async () => {
+        const concurrency = createConcurrencyLimiter({ maxConcurrent: 2 });
+        const pending: ((response: Response) => void)[] = [];
+        mockFetch.mockImplementation(() => new Promise<Response>(resolve => pending.push(resolve)));
+
+        const requests = [1, 2, 3].map(i => resilientFetch(`https://example.com/${i}`, { concurrency }));
+        await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+        expect(concurrency.stats('https://example.com')).toEqual({ active: 2, queued: 1 });
+
+        pending[0](new Response('1'));
+        await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(3));
+        pending[1](new Response('2'));
+        pending[2](new Response('3'));
+
+        await Promise.all(requests);
+    });
+
+    test('a queued request can be aborted', async () => {
+        const concurrency = createConcurrencyLimiter({ maxConcurrent: 1 });
+        mockFetch.mockImplementation(() => new Promise(() => { }));
+        const controller = new AbortController();
+
+        resilientFetch('https://example.com/1', { concurrency, timeout: 60000 });
+        const queued = resilientFetch('https://example.com/2', { concurrency, signal: controller.signal });
+        await vi.waitFor(() => expect(concurrency.stats('https://example.com').queued).toBe(1));
+
+        controller.abort();
+
+        await expect(queued).rejects.toBeInstanceOf(AbortedError);
+        expect(concurrency.stats('https://example.com').queued).toBe(0);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,91 @@
+export interface ConcurrencyLimiterOptions {
+    /** Maximum in-flight attempts per origin (default: 6) */
+    maxConcurrent?: number;
+}
+
+export interface ConcurrencyLimiter {
+    /**
+     * Waits for a free slot for the origin and resolves with a release function.
+     * Rejects with the signal's reason if it aborts while queued.
+     */
+    acquire: (origin: string, signal?: AbortSignal | null) => Promise<() => void>;
+    /** In-flight and queued counts for an origin */
+    stats: (origin: string) => { active: number; queued: number };
+}
+
+interface OriginQueue {
+    active: number;
+    waiting: (() => void)[];
+}
+
+/**
+ * Creates a per-origin concurrency limiter. Attempts beyond `maxConcurrent`
+ * are queued in FIFO order instead of flooding the server.
+ *
+ * @example
+ * const concurrency = createConcurrencyLimiter({ maxConcurrent: 4 });
+ * await resilientFetch(url, { concurrency });
+ */
+export function createConcurrencyLimiter(options: ConcurrencyLimiterOptions = {}): ConcurrencyLimiter {
+    const { maxConcurrent = 6 } = options;
+    const origins = new Map<string, OriginQueue>();
+
+    function getQueue(origin: string): OriginQueue {
+        let queue = origins.get(origin);
+        if (!queue) {
+            queue = { active: 0, waiting: [] };
+            origins.set(origin, queue);
+        }
+        return queue;
+    }
+
+    function releaser(origin: string, queue: OriginQueue): () => void {
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            queue.active--;
+            const next = queue.waiting.shift();
+            if (next) {
+                next();
+            } else if (queue.active === 0) {
+                origins.delete(origin);
+            }
+        };
+    }
+
+    return {
+        acquire(origin, signal) {
+            const queue = getQueue(origin);
+
+            if (signal?.aborted) {
+                return Promise.reject(signal.reason);
+            }
+
+            if (queue.active < maxConcurrent) {
+                queue.active++;
+                return Promise.resolve(releaser(origin, queue));
+            }
+
+            return new Promise((resolve, reject) => {
+                const onAbort = () => {
+                    const index = queue.waiting.indexOf(start);
+                    if (index !== -1) queue.waiting.splice(index, 1);
+                    reject(signal!.reason);
+                };
+                const start = () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    queue.active++;
+                    resolve(releaser(origin, queue));
+                };
+                queue.waiting.push(start);
+                signal?.addEventListener('abort', onAbort, { once: true });
+            });
+        },
+
+        stats(origin) {
+            const queue = origins.get(origin);
+            return { active: queue?.active ?? 0, queued: queue?.waiting.length ?? 0 };
+        }
+    };
+}
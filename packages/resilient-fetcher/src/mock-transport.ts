@@ -0,0 +1,178 @@
+import { sleep } from './abort.js';
+
+/**
+ * A scripted response. Numbers are shorthand for an empty response with that
+ * status, Errors fail the request like a network error, and functions build
+ * the reply from the incoming request.
+ */
+export type MockReply =
+    | number
+    | MockResponseInit
+    | Response
+    | Error
+    | ((request: Request) => MockReply | Promise<MockReply>);
+
+export interface MockResponseInit {
+    status?: number;
+    statusText?: string;
+    headers?: HeadersInit;
+    body?: BodyInit | null;
+    /** Serialized as the body, with a JSON Content-Type */
+    json?: unknown;
+    /** Wait this long (ms) before replying; runs on setTimeout so fake timers control it */
+    delay?: number;
+    /** Fail with this error instead of responding */
+    error?: Error;
+}
+
+/**
+ * Matches a request: a full URL, a path (starting with '/', query optional),
+ * a RegExp tested against the full URL, or a predicate.
+ */
+export type RouteMatcher = string | RegExp | ((request: Request) => boolean);
+
+export interface MockTransportOptions {
+    /** Delay (ms) applied to every reply that does not set its own (default: 0) */
+    delay?: number;
+    /** Reply for requests no route matches (default: reject with an Error) */
+    unmatched?: MockReply;
+}
+
+export interface MockTransport {
+    /** Pass as the `fetch` option of resilientFetch or createFetcher */
+    readonly fetch: typeof fetch;
+    /**
+     * Adds a route. Replies are used in order, one per request, and the last
+     * one repeats, so `503, 503, 200` fails twice and then succeeds.
+     * Use '*' to match any method. Earlier routes take precedence.
+     */
+    on: (method: string, matcher: RouteMatcher, ...replies: MockReply[]) => MockTransport;
+    /** Requests received so far, in order */
+    readonly calls: Request[];
+    /** Removes all routes and recorded calls */
+    reset: () => void;
+}
+
+interface Route {
+    method: string;
+    matches: (request: Request) => boolean;
+    replies: MockReply[];
+    used: number;
+}
+
+/**
+ * Resolves fetch arguments into a Request. The signal is left out because
+ * test environments may provide an AbortSignal the runtime's Request rejects.
+ */
+export function toRequest(input: string | URL | Request, init: RequestInit = {}): Request {
+    const base = typeof location !== 'undefined' ? location.href : 'http://localhost/';
+    const url = input instanceof Request ? input.url : new URL(input.toString(), base).href;
+    const source = input instanceof Request ? input : undefined;
+    return new Request(url, {
+        method: init.method ?? source?.method,
+        headers: init.headers ?? source?.headers,
+        body: init.body ?? null,
+        ...('duplex' in init && { duplex: init.duplex })
+    } as RequestInit);
+}
+
+function toMatcher(matcher: RouteMatcher): (request: Request) => boolean {
+    if (typeof matcher === 'function') return matcher;
+    if (matcher instanceof RegExp) return request => matcher.test(request.url);
+    if (!matcher.startsWith('/')) return request => request.url === matcher;
+    return request => {
+        const url = new URL(request.url);
+        return matcher.includes('?') ? url.pathname + url.search === matcher : url.pathname === matcher;
+    };
+}
+
+function abortReason(signal: AbortSignal): unknown {
+    return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Creates an in-memory fetch implementation with route matchers and scripted
+ * replies, for testing code built on resilientFetch.
+ *
+ * @example
+ * const transport = createMockTransport()
+ *   .on('GET', '/users', 503, 503, { json: [{ id: 1 }] });
+ *
+ * const response = await resilientFetch('https://api.example.com/users', {
+ *   fetch: transport.fetch
+ * });
+ * transport.calls.length; // 3
+ */
+export function createMockTransport(options: MockTransportOptions = {}): MockTransport {
+    const { delay: defaultDelay = 0, unmatched } = options;
+    let routes: Route[] = [];
+    let calls: Request[] = [];
+
+    const respond = async (reply: MockReply, request: Request, signal: AbortSignal | null | undefined): Promise<Response> => {
+        if (typeof reply === 'function') {
+            return respond(await reply(request.clone()), request, signal);
+        }
+
+        const init: MockResponseInit = typeof reply === 'number'
+            ? { status: reply }
+            : reply instanceof Response || reply instanceof Error ? {} : reply;
+        const delay = init.delay ?? defaultDelay;
+        if (delay > 0) {
+            await sleep(delay, signal);
+        } else if (signal?.aborted) {
+            throw abortReason(signal);
+        }
+
+        if (reply instanceof Error) throw reply;
+        if (reply instanceof Response) return reply.clone();
+        if (init.error) throw init.error;
+
+        const headers = new Headers(init.headers);
+        let body = init.body ?? null;
+        if (init.json !== undefined) {
+            body = JSON.stringify(init.json);
+            if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+        }
+        return new Response(body, { status: init.status ?? 200, statusText: init.statusText, headers });
+    };
+
+    const transport: MockTransport = {
+        fetch: async (input, init = {}) => {
+            const { signal } = init;
+            if (signal?.aborted) throw abortReason(signal);
+
+            const request = toRequest(input, init);
+            calls.push(request.clone());
+
+            const route = routes.find(candidate =>
+                (candidate.method === '*' || candidate.method === request.method) && candidate.matches(request));
+            if (!route) {
+                if (unmatched === undefined) {
+                    throw new Error(`No mock route matches ${request.method} ${request.url}`);
+                }
+                return respond(unmatched, request, signal);
+            }
+
+            const reply = route.replies[Math.min(route.used, route.replies.length - 1)];
+            route.used++;
+            return respond(reply, request, signal);
+        },
+        on: (method, matcher, ...replies) => {
+            routes.push({
+                method: method.toUpperCase(),
+                matches: toMatcher(matcher),
+                replies: replies.length > 0 ? replies : [200],
+                used: 0
+            });
+            return transport;
+        },
+        get calls() {
+            return [...calls];
+        },
+        reset: () => {
+            routes = [];
+            calls = [];
+        }
+    };
+    return transport;
+}
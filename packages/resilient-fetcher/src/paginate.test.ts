@@ -0,0 +1,142 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { paginate, paginateItems, AbortedError } from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function json(body: unknown, headers: Record<string, string> = {}) {
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const values: T[] = [];
+    for await (const value of iterable) values.push(value);
+    return values;
+}
+
+const requestedUrls = () => mockFetch.mock.calls.map(([url]) => url);
+
+describe('paginate', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    test('follows Link rel="next" headers, resolving relative targets', async () => {
+        mockFetch
+            .mockResolvedValueOnce(json([1, 2], { Link: '<https://api.example.com/items?page=2>; rel="next", <https://api.example.com/items?page=5>; rel="last"' }))
+            .mockResolvedValueOnce(json([3, 4], { Link: '</items?page=1>; rel="prev first", </items?page=3>; rel="next"' }))
+            .mockResolvedValueOnce(json([5], { Link: '</items?page=1>; rel="first"' }));
+
+        const pages = await collect(paginate<number>('https://api.example.com/items'));
+
+        expect(pages.map(page => page.items)).toEqual([[1, 2], [3, 4], [5]]);
+        expect(pages.map(page => page.index)).toEqual([0, 1, 2]);
+        expect(requestedUrls()).toEqual([
+            'https://api.example.com/items',
+            'https://api.example.com/items?page=2',
+            'https://api.example.com/items?page=3'
+        ]);
+    });
+
+    test('sends Accept: application/json', async () => {
+        mockFetch.mockResolvedValueOnce(json([]));
+
+        await collect(paginate('https://api.example.com/items'));
+
+        expect(new Headers(mockFetch.mock.calls[0][1].headers).get('Accept')).toBe('application/json');
+    });
+
+    test('follows cursors from the body', async () => {
+        mockFetch
+            .mockResolvedValueOnce(json({ data: ['a'], meta: { next: 'c2' } }))
+            .mockResolvedValueOnce(json({ data: ['b'], meta: { next: 'c3' } }))
+            .mockResolvedValueOnce(json({ data: ['c'], meta: { next: null } }));
+
+        const pages = await collect(paginate<string>('https://api.example.com/events?type=x', {
+            pagination: { type: 'cursor', cursor: 'meta.next', param: 'after' },
+            items: 'data'
+        }));
+
+        expect(pages.flatMap(page => page.items)).toEqual(['a', 'b', 'c']);
+        expect(requestedUrls()).toEqual([
+            'https://api.example.com/events?type=x',
+            'https://api.example.com/events?type=x&after=c2',
+            'https://api.example.com/events?type=x&after=c3'
+        ]);
+    });
+
+    test('accepts functions for cursors and items', async () => {
+        mockFetch
+            .mockResolvedValueOnce(json({ results: [1], next: 'n' }))
+            .mockResolvedValueOnce(json({ results: [2] }));
+
+        const items = await collect(paginateItems<number>('https://api.example.com/x', {
+            pagination: { type: 'cursor', cursor: body => (body as { next?: string }).next },
+            items: body => (body as { results: number[] }).results
+        }));
+
+        expect(items).toEqual([1, 2]);
+        expect(requestedUrls()[1]).toBe('https://api.example.com/x?cursor=n');
+    });
+
+    test('advances offset/limit until a short page', async () => {
+        mockFetch
+            .mockResolvedValueOnce(json([1, 2]))
+            .mockResolvedValueOnce(json([3, 4]))
+            .mockResolvedValueOnce(json([5]));
+
+        const items = await collect(paginateItems('https://api.example.com/rows', {
+            pagination: { type: 'offset', limit: 2 }
+        }));
+
+        expect(items).toEqual([1, 2, 3, 4, 5]);
+        expect(requestedUrls()).toEqual([
+            'https://api.example.com/rows?offset=0&limit=2',
+            'https://api.example.com/rows?offset=2&limit=2',
+            'https://api.example.com/rows?offset=4&limit=2'
+        ]);
+    });
+
+    test('stops after maxPages', async () => {
+        mockFetch.mockImplementation(async () => json([1], { Link: '<https://api.example.com/next>; rel="next"' }));
+
+        const pages = await collect(paginate('https://api.example.com/items', { maxPages: 2 }));
+
+        expect(pages).toHaveLength(2);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('retries each page with the resilientFetch options', async () => {
+        mockFetch
+            .mockResolvedValueOnce(json([1], { Link: '<https://api.example.com/items?page=2>; rel="next"' }))
+            .mockResolvedValueOnce(new Response(null, { status: 503 }))
+            .mockResolvedValueOnce(json([2]));
+
+        const items = await collect(paginateItems('https://api.example.com/items', { retries: 1, retryDelay: 0 }));
+
+        expect(items).toEqual([1, 2]);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    test('stops fetching when the consumer breaks out', async () => {
+        mockFetch.mockImplementation(async () => json([1, 2, 3], { Link: '<https://api.example.com/next>; rel="next"' }));
+
+        for await (const item of paginateItems('https://api.example.com/items')) {
+            if (item === 2) break;
+        }
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('rejects with AbortedError once the signal aborts', async () => {
+        const controller = new AbortController();
+        mockFetch.mockImplementation(async () => json([1], { Link: '<https://api.example.com/next>; rel="next"' }));
+
+        const pages = paginate('https://api.example.com/items', { signal: controller.signal });
+        await pages.next();
+        controller.abort();
+
+        await expect(pages.next()).rejects.toBeInstanceOf(AbortedError);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+});
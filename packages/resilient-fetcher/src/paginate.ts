@@ -0,0 +1,172 @@
+import { resilientFetch } from './resilient-fetch.js';
+import { readJson } from './json.js';
+import type { ResilientRequestInit } from './types.js';
+
+/**
+ * How to find the next page:
+ * - `link`: follow the RFC 8288 `Link: <...>; rel="next"` response header
+ * - `cursor`: read a cursor from the JSON body and send it as a query parameter
+ * - `offset`: advance an offset query parameter by `limit` until a short page
+ */
+export type PaginationStrategy =
+    | { type: 'link' }
+    | {
+        type: 'cursor';
+        /** Dotted path to the next cursor in the body (e.g. 'meta.next_cursor'), or a function reading it */
+        cursor: string | ((body: unknown) => unknown);
+        /** Query parameter carrying the cursor (default: 'cursor') */
+        param?: string;
+    }
+    | {
+        type: 'offset';
+        /** Page size, sent as `limitParam` */
+        limit: number;
+        /** Query parameter carrying the offset (default: 'offset') */
+        offsetParam?: string;
+        /** Query parameter carrying the page size (default: 'limit') */
+        limitParam?: string;
+    };
+
+export interface PaginateOptions<T> extends ResilientRequestInit {
+    /** Strategy for finding the next page (default: { type: 'link' }) */
+    pagination?: PaginationStrategy;
+    /** Dotted path to the items array in the body, or a function returning it (default: the body, if it is an array) */
+    items?: string | ((body: unknown) => T[]);
+    /** Stop after this many pages */
+    maxPages?: number;
+}
+
+export interface Page<T> {
+    /** Zero-based page number */
+    index: number;
+    /** URL the page was fetched from */
+    url: string;
+    response: Response;
+    /** Parsed JSON body (undefined for empty bodies) */
+    body: unknown;
+    items: T[];
+}
+
+function getPath(value: unknown, path: string): unknown {
+    let current = value;
+    for (const key of path.split('.')) {
+        if (current === null || typeof current !== 'object') return undefined;
+        current = (current as Record<string, unknown>)[key];
+    }
+    return current;
+}
+
+/**
+ * Finds the `rel="next"` target in an RFC 8288 Link header.
+ */
+function parseNextLink(header: string | null): string | null {
+    if (!header) return null;
+    for (const match of header.matchAll(/<([^>]*)>((?:\s*;\s*[^;,]+)*)/g)) {
+        const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i.exec(match[2]);
+        const relations = (rel?.[1] ?? rel?.[2] ?? '').toLowerCase().split(/\s+/);
+        if (relations.includes('next')) return match[1];
+    }
+    return null;
+}
+
+function resolveURL(url: string, base?: string): URL {
+    return new URL(url, base ?? (typeof location !== 'undefined' ? location.href : undefined));
+}
+
+/**
+ * Walks a paginated API page by page. Every page is fetched with
+ * resilientFetch, so retries, timeouts and the other options apply per page;
+ * the `signal` option stops the walk.
+ *
+ * @example
+ * for await (const page of paginate<Repo>('https://api.github.com/orgs/acme/repos')) {
+ *   console.log(page.index, page.items.length);
+ * }
+ *
+ * const pages = paginate('/api/events', {
+ *   pagination: { type: 'cursor', cursor: 'meta.next' },
+ *   items: 'data',
+ *   maxPages: 10
+ * });
+ */
+export async function* paginate<T = unknown>(
+    url: string | URL,
+    options: PaginateOptions<T> = {}
+): AsyncGenerator<Page<T>, void, undefined> {
+    const { pagination = { type: 'link' }, items: itemsOption, maxPages = Infinity, ...init } = options;
+    const headers = new Headers(init.headers);
+    if (!headers.has('Accept')) {
+        headers.set('Accept', 'application/json');
+    }
+
+    let next: string | null = url.toString();
+    let offset = 0;
+    if (pagination.type === 'offset') {
+        const { offsetParam = 'offset', limitParam = 'limit', limit } = pagination;
+        const first = resolveURL(next);
+        offset = Number(first.searchParams.get(offsetParam)) || 0;
+        first.searchParams.set(offsetParam, String(offset));
+        first.searchParams.set(limitParam, String(limit));
+        next = first.href;
+    }
+
+    for (let index = 0; next !== null && index < maxPages; index++) {
+        const pageUrl: string = next;
+        const response = await resilientFetch(pageUrl, { ...init, headers });
+        const body = await readJson(response);
+
+        const found = typeof itemsOption === 'function'
+            ? itemsOption(body)
+            : itemsOption ? getPath(body, itemsOption) : body;
+        const items = (Array.isArray(found) ? found : []) as T[];
+
+        yield { index, url: pageUrl, response, body, items };
+
+        next = null;
+        switch (pagination.type) {
+            case 'link': {
+                const target = parseNextLink(response.headers.get('link'));
+                if (target) next = resolveURL(target, resolveURL(pageUrl).href).href;
+                break;
+            }
+            case 'cursor': {
+                const { cursor, param = 'cursor' } = pagination;
+                const value = typeof cursor === 'function' ? cursor(body) : getPath(body, cursor);
+                if (value !== null && value !== undefined && value !== '') {
+                    const target = resolveURL(pageUrl);
+                    target.searchParams.set(param, String(value));
+                    next = target.href;
+                }
+                break;
+            }
+            case 'offset': {
+                const { offsetParam = 'offset', limit } = pagination;
+                // A short page is the last one
+                if (items.length >= limit && limit > 0) {
+                    offset += items.length;
+                    const target = resolveURL(pageUrl);
+                    target.searchParams.set(offsetParam, String(offset));
+                    next = target.href;
+                }
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Walks a paginated API like paginate, yielding individual items.
+ *
+ * @example
+ * for await (const user of paginateItems<User>('/api/users', { items: 'data' })) {
+ *   if (user.name === 'Ada') break; // stops fetching further pages
+ * }
+ */
+export async function* paginateItems<T = unknown>(
+    url: string | URL,
+    options: PaginateOptions<T> = {}
+): AsyncGenerator<T, void, undefined> {
+    for await (const page of paginate(url, options)) {
+        yield* page.items;
+    }
+}
@@ -0,0 +1,186 @@
+// jsdom's Headers drops the Range header, so run against Node's fetch primitives
+// @vitest-environment node
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { resilientFetch, type Progress } from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const encoder = new TextEncoder();
+
+/** A body stream that emits the given chunks, then optionally fails */
+function chunkedStream(chunks: string[], failAfter = false): ReadableStream<Uint8Array> {
+    let index = 0;
+    return new ReadableStream({
+        pull(controller) {
+            if (index < chunks.length) {
+                controller.enqueue(encoder.encode(chunks[index++]));
+            } else if (failAfter) {
+                controller.error(new TypeError('terminated'));
+            } else {
+                controller.close();
+            }
+        }
+    });
+}
+
+describe('progress', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    test('reports download progress', async () => {
+        mockFetch.mockResolvedValueOnce(new Response(chunkedStream(['abc', 'defg']), {
+            headers: { 'Content-Length': '7' }
+        }));
+        const progress: Progress[] = [];
+
+        const response = await resilientFetch('https://example.com/file', {
+            onDownloadProgress: p => progress.push(p)
+        });
+
+        expect(await response.text()).toBe('abcdefg');
+        expect(progress).toEqual([
+            { loaded: 0, total: 7 },
+            { loaded: 3, total: 7 },
+            { loaded: 7, total: 7 }
+        ]);
+    });
+
+    test('reports a null total without Content-Length', async () => {
+        mockFetch.mockResolvedValueOnce(new Response(chunkedStream(['ab'])));
+        const progress: Progress[] = [];
+
+        const response = await resilientFetch('https://example.com/file', {
+            onDownloadProgress: p => progress.push(p)
+        });
+        await response.text();
+
+        expect(progress.at(-1)).toEqual({ loaded: 2, total: null });
+    });
+
+    test('reports a null total for encoded bodies and keeps the response url', async () => {
+        const original = new Response(chunkedStream(['decoded']), {
+            headers: { 'Content-Length': '3', 'Content-Encoding': 'gzip' }
+        });
+        Object.defineProperty(original, 'url', { value: 'https://example.com/final' });
+        Object.defineProperty(original, 'redirected', { value: true });
+        mockFetch.mockResolvedValueOnce(original);
+        const progress: Progress[] = [];
+
+        const response = await resilientFetch('https://example.com/file', {
+            onDownloadProgress: p => progress.push(p)
+        });
+        await response.text();
+
+        expect(progress.at(-1)).toEqual({ loaded: 7, total: null });
+        expect(response.url).toBe('https://example.com/final');
+        expect(response.redirected).toBe(true);
+        expect(response.type).toBe(original.type);
+    });
+
+    test('resumes a failed download with a Range request and stitches the body', async () => {
+        mockFetch
+            .mockResolvedValueOnce(new Response(chunkedStream(['hello '], true), {
+                headers: { 'Accept-Ranges': 'bytes', 'Content-Length': '11', ETag: '"v1"' }
+            }))
+            .mockResolvedValueOnce(new Response(chunkedStream(['world']), {
+                status: 206,
+                headers: { 'Content-Range': 'bytes 6-10/11' }
+            }));
+
+        const response = await resilientFetch('https://example.com/file', { resumable: true, retries: 1 });
+
+        expect(await response.text()).toBe('hello world');
+        const headers: Headers = mockFetch.mock.calls[1][1].headers;
+        expect(headers.get('Range')).toBe('bytes=6-');
+        expect(headers.get('If-Range')).toBe('"v1"');
+    });
+
+    test('fails the stream when the server ignores the Range request', async () => {
+        mockFetch
+            .mockResolvedValueOnce(new Response(chunkedStream(['hello '], true), {
+                headers: { 'Accept-Ranges': 'bytes' }
+            }))
+            .mockResolvedValueOnce(new Response('hello world', { status: 200 }));
+
+        const response = await resilientFetch('https://example.com/file', { resumable: true, retries: 1 });
+
+        await expect(response.text()).rejects.toThrow();
+    });
+
+    test('does not resume without Accept-Ranges', async () => {
+        mockFetch.mockResolvedValueOnce(new Response(chunkedStream(['hello '], true)));
+
+        const response = await resilientFetch('https://example.com/file', { resumable: true, retries: 1 });
+
+        await expect(response.text()).rejects.toThrow();
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('streams buffered upload bodies with progress on every attempt', async () => {
+        const bodies: string[] = [];
+        mockFetch.mockImplementation(async (_url, init) => {
+            bodies.push(await new Response(init.body).text());
+            return bodies.length === 1 ? { ok: false, status: 503 } : { ok: true, status: 200 };
+        });
+        const progress: Progress[] = [];
+
+        await resilientFetch('https://example.com/upload', {
+            method: 'PUT',
+            body: 'payload',
+            retries: 1,
+            retryDelay: 0,
+            onUploadProgress: p => progress.push(p)
+        });
+
+        expect(bodies).toEqual(['payload', 'payload']);
+        expect(mockFetch.mock.calls[0][1].duplex).toBe('half');
+        expect(mockFetch.mock.calls[0][1].headers.get('Content-Type')).toBe('text/plain;charset=UTF-8');
+        expect(progress.at(-1)).toEqual({ loaded: 7, total: 7 });
+    });
+
+    test('falls back to a buffered upload body when the stream is rejected', async () => {
+        mockFetch.mockImplementation(async (_url, init) => {
+            // Like Chrome over HTTP/1.1
+            if (init.duplex) throw new TypeError('Failed to fetch');
+            return { ok: true, status: 200, body: await new Response(init.body).text() };
+        });
+
+        const response = await resilientFetch('https://example.com/upload', {
+            method: 'PUT',
+            body: 'payload',
+            retries: 0,
+            onUploadProgress: () => { }
+        });
+
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        expect(mockFetch.mock.calls[1][1].duplex).toBeUndefined();
+        expect((response as unknown as { body: string }).body).toBe('payload');
+    });
+
+    test('sends buffered upload bodies untracked where request streams are unsupported', async () => {
+        // Like runtimes without streaming uploads: duplex is ignored and the stream is stringified
+        vi.stubGlobal('Request', class {
+            headers = new Headers({ 'Content-Type': 'text/plain;charset=UTF-8' });
+        });
+        mockFetch.mockResolvedValue({ ok: true, status: 200 });
+        const progress: Progress[] = [];
+
+        try {
+            await resilientFetch('https://example.com/upload', {
+                method: 'PUT',
+                body: 'payload',
+                onUploadProgress: p => progress.push(p)
+            });
+        } finally {
+            vi.unstubAllGlobals();
+        }
+
+        const init = mockFetch.mock.calls[0][1];
+        expect(await new Response(init.body).text()).toBe('payload');
+        expect(init.duplex).toBeUndefined();
+        expect(init.headers.get('Content-Type')).toBe('text/plain;charset=UTF-8');
+        expect(progress).toEqual([]);
+    });
+});
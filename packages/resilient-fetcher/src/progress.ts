@@ -0,0 +1,205 @@
+export interface Progress {
+    /** Bytes transferred so far */
+    loaded: number;
+    /** Total bytes, when known */
+    total: number | null;
+}
+
+export type ProgressCallback = (progress: Progress) => void;
+
+/** Chunk size used when streaming an upload body */
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Bytes and content type of a request body that can be re-streamed on every attempt.
+ */
+export interface UploadSource {
+    bytes: Uint8Array;
+    contentType: string | null;
+}
+
+/**
+ * Reads a request body into memory so it can be streamed with progress.
+ * Returns null for bodies that are already streams or can't be read up front
+ * (FormData), which are sent untracked.
+ */
+export async function toUploadSource(body: BodyInit | null | undefined): Promise<UploadSource | null> {
+    if (typeof body === 'string') {
+        return { bytes: new TextEncoder().encode(body), contentType: 'text/plain;charset=UTF-8' };
+    }
+    if (body instanceof URLSearchParams) {
+        return {
+            bytes: new TextEncoder().encode(body.toString()),
+            contentType: 'application/x-www-form-urlencoded;charset=UTF-8'
+        };
+    }
+    if (body instanceof ArrayBuffer) {
+        return { bytes: new Uint8Array(body), contentType: null };
+    }
+    if (ArrayBuffer.isView(body)) {
+        return { bytes: new Uint8Array(body.buffer, body.byteOffset, body.byteLength), contentType: null };
+    }
+    if (typeof Blob !== 'undefined' && body instanceof Blob) {
+        return { bytes: new Uint8Array(await body.arrayBuffer()), contentType: body.type || null };
+    }
+    return null;
+}
+
+/** Streaming support, detected once per Request implementation */
+const requestStreamSupport = new WeakMap<typeof Request, boolean>();
+
+/**
+ * Whether the runtime can send a ReadableStream as a request body. Runtimes
+ * without support either ignore `duplex` or stringify the stream into a
+ * text/plain body, so both are checked.
+ */
+export function supportsRequestStreams(): boolean {
+    if (typeof Request === 'undefined' || typeof ReadableStream === 'undefined') {
+        return false;
+    }
+    let supported = requestStreamSupport.get(Request);
+    if (supported === undefined) {
+        let duplexAccessed = false;
+        try {
+            const request = new Request('https://example.com', {
+                method: 'POST',
+                body: new ReadableStream(),
+                get duplex() {
+                    duplexAccessed = true;
+                    return 'half';
+                }
+            } as RequestInit);
+            supported = duplexAccessed && !request.headers.has('Content-Type');
+        } catch {
+            supported = false;
+        }
+        requestStreamSupport.set(Request, supported);
+    }
+    return supported;
+}
+
+/**
+ * Streams an upload source in chunks, reporting progress as each chunk is pulled.
+ */
+export function uploadStream(source: UploadSource, onProgress: ProgressCallback): ReadableStream<Uint8Array> {
+    const { bytes } = source;
+    let offset = 0;
+
+    return new ReadableStream<Uint8Array>({
+        start() {
+            onProgress({ loaded: 0, total: bytes.byteLength });
+        },
+        pull(controller) {
+            if (offset >= bytes.byteLength) {
+                controller.close();
+                return;
+            }
+            const chunk = bytes.subarray(offset, offset + UPLOAD_CHUNK_SIZE);
+            offset += chunk.byteLength;
+            controller.enqueue(chunk);
+            onProgress({ loaded: offset, total: bytes.byteLength });
+        }
+    });
+}
+
+export interface DownloadOptions {
+    onProgress?: ProgressCallback;
+    /**
+     * Requests the rest of the body starting at `offset`. Provided only when the
+     * server advertised `Accept-Ranges: bytes`; must resolve with a 206 response.
+     */
+    resume?: (offset: number) => Promise<Response>;
+    /** Maximum number of resumes (default: 0) */
+    maxResumes?: number;
+}
+
+/**
+ * Whether a resumed response continues exactly at `offset`.
+ */
+function continuesAt(response: Response, offset: number): boolean {
+    if (response.status !== 206) return false;
+    const match = /^bytes (\d+)-/.exec(response.headers.get('content-range') ?? '');
+    return match !== null && Number(match[1]) === offset;
+}
+
+/**
+ * Whether the body was sent with a content coding (gzip, br, ...) that fetch decodes.
+ */
+function isEncoded(response: Response): boolean {
+    const encoding = response.headers.get('content-encoding')?.trim().toLowerCase();
+    return !!encoding && encoding !== 'identity';
+}
+
+/**
+ * Wraps a response so its body reports download progress and, when a read
+ * fails mid-stream, resumes with a Range request and stitches the chunks into
+ * one continuous stream.
+ */
+export function trackDownload(response: Response, options: DownloadOptions): Response {
+    if (!response.body) return response;
+
+    const { onProgress, maxResumes = 0 } = options;
+    // Content-Length counts encoded bytes, while the body yields decoded ones
+    const encoded = isEncoded(response);
+    const length = Number(response.headers.get('content-length'));
+    const total = !encoded && response.headers.has('content-length') && !isNaN(length) ? length : null;
+    // Range offsets also count encoded bytes, so decoded bodies can't resume
+    const resume = encoded ? undefined : options.resume;
+
+    let reader = response.body.getReader();
+    let loaded = 0;
+    let resumes = 0;
+
+    const body = new ReadableStream<Uint8Array>({
+        start() {
+            onProgress?.({ loaded: 0, total });
+        },
+        async pull(controller) {
+            while (true) {
+                try {
+                    const { done, value } = await reader.read();
+                    if (done) {
+                        controller.close();
+                        return;
+                    }
+                    loaded += value.byteLength;
+                    controller.enqueue(value);
+                    onProgress?.({ loaded, total });
+                    return;
+                } catch (error) {
+                    if (!resume || resumes >= maxResumes) {
+                        controller.error(error);
+                        return;
+                    }
+                    resumes++;
+                    try {
+                        const next = await resume(loaded);
+                        if (!continuesAt(next, loaded) || !next.body) {
+                            await next.body?.cancel();
+                            controller.error(error);
+                            return;
+                        }
+                        reader = next.body.getReader();
+                    } catch {
+                        controller.error(error);
+                        return;
+                    }
+                }
+            }
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        }
+    });
+
+    const tracked = new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers
+    });
+    // The constructor can't set these, so copy them from the original
+    for (const property of ['url', 'redirected', 'type'] as const) {
+        Object.defineProperty(tracked, property, { value: response[property] });
+    }
+    return tracked;
+}
@@ -0,0 +1,212 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { toRequest } from './mock-transport.js';
+
+export interface HarHeader {
+    name: string;
+    value: string;
+}
+
+/**
+ * One recorded exchange, following the HAR 1.2 entry layout.
+ */
+export interface HarEntry {
+    startedDateTime: string;
+    /** Time until the response arrived, in ms */
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        headers: HarHeader[];
+        postData?: { mimeType: string; text: string };
+    };
+    response: {
+        status: number;
+        statusText: string;
+        headers: HarHeader[];
+        content: { size: number; mimeType: string; text: string; encoding?: 'base64' };
+    };
+}
+
+export interface HarLog {
+    log: {
+        version: '1.2';
+        creator: { name: string; version?: string };
+        entries: HarEntry[];
+    };
+}
+
+export interface RecorderOptions {
+    /** Fixture file to write (record) or read (replay) */
+    path: string;
+    /** 'record' sends requests and saves them; 'replay' answers from the fixture (default: 'replay') */
+    mode?: 'record' | 'replay';
+    /** fetch used to send requests in record mode (default: global fetch) */
+    fetch?: typeof fetch;
+    /** Request headers left out of fixtures (default: authorization, cookie, proxy-authorization) */
+    redactHeaders?: string[];
+    /** Response headers left out of fixtures (default: set-cookie, set-cookie2) */
+    redactResponseHeaders?: string[];
+}
+
+export interface Recorder {
+    /** Pass as the `fetch` option of resilientFetch or createFetcher */
+    readonly fetch: typeof fetch;
+    readonly mode: 'record' | 'replay';
+    /** Exchanges recorded (or loaded) so far */
+    readonly entries: HarEntry[];
+    /** Writes the recorded exchanges to `path`; does nothing in replay mode */
+    save: () => Promise<void>;
+}
+
+const DEFAULT_REDACTED = ['authorization', 'cookie', 'proxy-authorization'];
+
+/** Response headers that carry session tokens */
+const DEFAULT_REDACTED_RESPONSE = ['set-cookie', 'set-cookie2'];
+
+/** Response headers that describe the wire encoding rather than the stored (decoded) body */
+const WIRE_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding'];
+
+/** Content types stored as text; everything else is base64-encoded */
+const TEXT_TYPES = /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded)\b/i;
+
+function toHarHeaders(headers: Headers, redacted: string[] = []): HarHeader[] {
+    const list: HarHeader[] = [];
+    headers.forEach((value, name) => {
+        if (!redacted.includes(name)) list.push({ name, value });
+    });
+    return list;
+}
+
+/**
+ * Reads a request body that can be recorded as text, or null for bodies that can't.
+ */
+function bodyText(body: BodyInit | null | undefined): string | null {
+    if (typeof body === 'string') return body;
+    if (body instanceof URLSearchParams) return body.toString();
+    return null;
+}
+
+/**
+ * Creates a fetch implementation that records real exchanges to a HAR-like
+ * fixture file, or replays them from it. Replayed requests are matched by
+ * method, URL and text body; repeated requests get the recorded responses in
+ * order, with the last one repeating.
+ *
+ * @example
+ * const recorder = createRecorder({
+ *   path: 'fixtures/users.har.json',
+ *   mode: process.env.RECORD ? 'record' : 'replay'
+ * });
+ * await resilientFetch('https://api.example.com/users', { fetch: recorder.fetch });
+ * await recorder.save();
+ */
+export function createRecorder(options: RecorderOptions): Recorder {
+    const {
+        path,
+        mode = 'replay',
+        fetch: fetchImpl,
+        redactHeaders = DEFAULT_REDACTED,
+        redactResponseHeaders = DEFAULT_REDACTED_RESPONSE
+    } = options;
+    const redacted = redactHeaders.map(name => name.toLowerCase());
+    const redactedResponse = [...WIRE_HEADERS, ...redactResponseHeaders.map(name => name.toLowerCase())];
+    const entries: HarEntry[] = [];
+    const replayed = new Map<HarEntry, number>();
+    let loading: Promise<void> | null = null;
+
+    const load = () => {
+        loading ??= readFile(path, 'utf8').then(text => {
+            entries.push(...(JSON.parse(text) as HarLog).log.entries);
+        });
+        return loading;
+    };
+
+    const record = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+        // The body is recorded from init; streams must stay unread for the real request
+        const request = toRequest(input, { ...init, body: null });
+        const startedAt = Date.now();
+        const response = await (fetchImpl ?? fetch)(input, init);
+        const time = Date.now() - startedAt;
+
+        const body = new Uint8Array(await response.clone().arrayBuffer());
+        const mimeType = response.headers.get('content-type') ?? '';
+        const isText = TEXT_TYPES.test(mimeType);
+        const postData = bodyText(init.body);
+
+        entries.push({
+            startedDateTime: new Date(startedAt).toISOString(),
+            time,
+            request: {
+                method: request.method,
+                url: request.url,
+                headers: toHarHeaders(request.headers, redacted),
+                ...(postData !== null && {
+                    postData: { mimeType: request.headers.get('content-type') ?? '', text: postData }
+                })
+            },
+            response: {
+                status: response.status,
+                statusText: response.statusText,
+                headers: toHarHeaders(response.headers, redactedResponse),
+                content: {
+                    size: body.byteLength,
+                    mimeType,
+                    text: isText ? new TextDecoder().decode(body) : Buffer.from(body).toString('base64'),
+                    ...(!isText && { encoding: 'base64' as const })
+                }
+            }
+        });
+        return response;
+    };
+
+    const replay = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+        if (init.signal?.aborted) throw init.signal.reason;
+        await load();
+
+        const request = toRequest(input, { ...init, body: null });
+        const postData = bodyText(init.body);
+        const candidates = entries.filter(entry =>
+            entry.request.method === request.method &&
+            entry.request.url === request.url &&
+            (postData === null || entry.request.postData === undefined || entry.request.postData.text === postData));
+        if (candidates.length === 0) {
+            throw new Error(`No recorded response for ${request.method} ${request.url} in ${path}`);
+        }
+
+        // Identical requests walk through their recordings, so retries replay as recorded
+        const key = candidates[0];
+        const index = replayed.get(key) ?? 0;
+        replayed.set(key, index + 1);
+        const { response } = candidates[Math.min(index, candidates.length - 1)];
+
+        const { content } = response;
+        const body = content.encoding === 'base64' ? Buffer.from(content.text, 'base64') : content.text;
+        const nullBody = [101, 204, 205, 304].includes(response.status);
+        return new Response(nullBody ? null : body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers.map(({ name, value }) => [name, value] as [string, string])
+        });
+    };
+
+    return {
+        fetch: mode === 'record' ? record : replay,
+        mode,
+        get entries() {
+            return [...entries];
+        },
+        save: async () => {
+            if (mode !== 'record') return;
+            const har: HarLog = {
+                log: {
+                    version: '1.2',
+                    creator: { name: 'resilient-fetcher' },
+                    entries
+                }
+            };
+            await mkdir(dirname(path), { recursive: true });
+            await writeFile(path, `${JSON.stringify(har, null, 2)}\n`);
+        }
+    };
+}
@@ -0,0 +1,397 @@
+import { getRetryAfter } from './retry-after.js';
+import { linkSignal, sleep } from './abort.js';
+import { AbortedError, HttpError, NetworkError, TimeoutError, type AttemptRecord } from './errors.js';
+import { coalesce, defaultDedupeKey } from './dedupe.js';
+import { cachedFetch } from './cache.js';
+import { canHedge, hedgedFetch } from './hedge.js';
+import { isIdempotentMethod, resolveIdempotencyKey } from './idempotency.js';
+import { supportsRequestStreams, toUploadSource, trackDownload, uploadStream } from './progress.js';
+import type { FetchEvent, FetchEventData, ResilientRequestInit } from './types.js';
+
+/**
+ * Calculates delay with optional exponential backoff and jitter, capped at maxDelay.
+ * A server-requested delay (Retry-After) takes precedence over the backoff strategy.
+ */
+export function calculateDelay(
+    attempt: number,
+    baseDelay: number,
+    backoff: 'fixed' | 'exponential',
+    maxDelay: number,
+    serverDelay: number | null = null
+): number {
+    if (serverDelay !== null) {
+        return Math.min(serverDelay, maxDelay);
+    }
+    if (backoff === 'exponential') {
+        const exponentialDelay = baseDelay * Math.pow(2, attempt - 1);
+        const jitter = Math.random() * 0.3 * exponentialDelay; // 0-30% jitter
+        return Math.min(exponentialDelay + jitter, maxDelay);
+    }
+    return Math.min(baseDelay, maxDelay);
+}
+
+/**
+ * Default retry condition: retry on network errors, 429 Too Many Requests and 5xx responses.
+ */
+const defaultRetryOn = (_error: Error | null, response: Response | null): boolean => {
+    if (!response) return true; // Network error
+    return response.status === 429 || response.status >= 500;
+};
+
+/** Source of per-request ids that correlate lifecycle events */
+let requestCounter = 0;
+
+/**
+ * Resolves the origin used to key per-origin state such as circuit breakers.
+ */
+function getOrigin(url: string): string {
+    try {
+        const base = typeof location !== 'undefined' ? location.href : undefined;
+        return new URL(url, base).origin;
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * A resilient wrapper around the native fetch API with retry and timeout capabilities.
+ *
+ * @example
+ * const response = await resilientFetch('https://api.example.com/data');
+ * 
+ * const response = await resilientFetch('https://api.example.com/data', {
+ *   retries: 3,
+ *   timeout: 10000,
+ *   backoff: 'exponential'
+ * });
+ */
+export async function resilientFetch(
+    url: string | URL | Request,
+    options: ResilientRequestInit = {}
+): Promise<Response> {
+    // A Request carries its own headers, body and signal, which the key can't see
+    if (options.dedupe && !(url instanceof Request)) {
+        const { dedupe, signal, ...rest } = options;
+        const keyFn = (typeof dedupe === 'object' && dedupe.key) || defaultDedupeKey;
+        const key = keyFn(url.toString(), rest);
+        if (key !== null) {
+            // The shared request is aborted only once every caller has aborted
+            return coalesce(key, url.toString(), shared => resilientFetch(url, { ...rest, signal: shared }), signal);
+        }
+    }
+
+    if (options.httpCache) {
+        // onResponse runs here, so cached responses are intercepted too and stored ones are not
+        const { httpCache, onResponse, ...rest } = options;
+        const response = await cachedFetch(httpCache, url.toString(), rest, init => resilientFetch(url, init), error => {
+            const timestamp = Date.now();
+            rest.onEvent?.({
+                type: 'revalidation-error',
+                error,
+                requestId: String(++requestCounter),
+                url: url.toString(),
+                method: 'GET',
+                timestamp,
+                elapsed: 0
+            });
+        });
+        return onResponse ? onResponse(response) : response;
+    }
+
+    const {
+        retries = 3,
+        retryDelay = 1000,
+        timeout = 5000,
+        backoff = 'fixed',
+        maxRetryDelay = 60000,
+        respectRetryAfter = true,
+        retryOn = defaultRetryOn,
+        onRequest,
+        onResponse,
+        onError,
+        circuitBreaker,
+        retryBudget,
+        concurrency,
+        hedge,
+        idempotencyKey,
+        idempotencyHeader = 'Idempotency-Key',
+        onEvent,
+        onUploadProgress,
+        onDownloadProgress,
+        resumable = false,
+        dedupe: _dedupe,
+        httpCache: _httpCache,
+        fetch: fetchImpl = fetch,
+        ...fetchOptions
+    } = options;
+
+    let attempt = 0;
+    let finalUrl = url.toString();
+    let finalOptions: RequestInit = fetchOptions;
+    const attempts: AttemptRecord[] = [];
+
+    // Apply request interceptor
+    if (onRequest) {
+        finalOptions = await onRequest(finalUrl, fetchOptions);
+    }
+
+    // Unsafe methods only retry once the caller opts in with an idempotency key,
+    // which is then sent unchanged on every attempt of this request
+    let maxRetries = retries;
+    if (!isIdempotentMethod(finalOptions.method)) {
+        const headers = new Headers(finalOptions.headers);
+        const key = resolveIdempotencyKey(idempotencyKey, headers, idempotencyHeader);
+        if (key === null) {
+            maxRetries = 0;
+        } else {
+            headers.set(idempotencyHeader, key);
+            finalOptions = { ...finalOptions, headers };
+        }
+    }
+
+    const origin = getOrigin(finalUrl);
+    // The caller's signal cancels in-flight attempts and pending backoff sleeps
+    const callerSignal = finalOptions.signal;
+
+    const requestId = String(++requestCounter);
+    const method = (finalOptions.method ?? 'GET').toUpperCase();
+    const requestStart = Date.now();
+
+    /** Reports a lifecycle event to onEvent with the fields every event shares */
+    const emit = (event: FetchEventData) => {
+        if (!onEvent) return;
+        const timestamp = Date.now();
+        onEvent({ ...event, requestId, url: finalUrl, method, timestamp, elapsed: timestamp - requestStart } as FetchEvent);
+    };
+
+    /** Reports the final error before it is thrown */
+    const giveUp = <E extends Error>(err: E, notify = true): E => {
+        if (notify && onError) {
+            onError(err);
+        }
+        emit({ type: 'give-up', attempts: attempts.length, error: err });
+        return err;
+    };
+
+    const abortError = () =>
+        giveUp(new AbortedError({ url: finalUrl, attempts: [...attempts], cause: callerSignal?.reason }));
+
+    /** Waits before the next attempt, bailing out early if the caller aborts */
+    const backoffSleep = async (delay: number) => {
+        try {
+            await sleep(delay, callerSignal);
+        } catch {
+            throw abortError();
+        }
+    };
+
+    const hedging = hedge && canHedge(finalOptions.method, hedge) ? hedge : null;
+
+    // Buffered upload bodies are re-streamed with progress on every attempt
+    const uploadSource = onUploadProgress ? await toUploadSource(finalOptions.body) : null;
+    if (uploadSource?.contentType) {
+        const headers = new Headers(finalOptions.headers);
+        if (!headers.has('Content-Type')) {
+            headers.set('Content-Type', uploadSource.contentType);
+            finalOptions = { ...finalOptions, headers };
+        }
+    }
+
+    // Chrome rejects streamed request bodies over HTTP/1.1, so a rejected stream
+    // switches this request to buffered bodies
+    let streamUpload = supportsRequestStreams();
+
+    /** Sends one copy of the current attempt */
+    const send = async (init: RequestInit, signal: AbortSignal) => {
+        if (!uploadSource || !onUploadProgress) {
+            return fetchImpl(finalUrl, { ...init, signal });
+        }
+        if (streamUpload) {
+            try {
+                // duplex is required for streaming request bodies but missing from the DOM typings
+                return await fetchImpl(finalUrl, {
+                    ...init,
+                    body: uploadStream(uploadSource, onUploadProgress),
+                    duplex: 'half',
+                    signal
+                } as RequestInit);
+            } catch (error) {
+                if (signal.aborted || !(error instanceof TypeError)) throw error;
+                streamUpload = false;
+            }
+        }
+        // The body was already read for buffering, so send those bytes untracked
+        return fetchImpl(finalUrl, { ...init, body: uploadSource.bytes as BodyInit, signal });
+    };
+
+    /** Requests the remainder of a download that failed mid-stream */
+    const resumeFrom = (offset: number, validator: string | null) => {
+        const headers = new Headers(finalOptions.headers);
+        headers.set('Range', `bytes=${offset}-`);
+        if (validator) headers.set('If-Range', validator);
+        return resilientFetch(finalUrl, {
+            ...options,
+            ...finalOptions,
+            headers,
+            onRequest: undefined,
+            onResponse: undefined,
+            onDownloadProgress: undefined,
+            resumable: false,
+            dedupe: false,
+            httpCache: undefined
+        });
+    };
+
+    /** Retries only when the shared budget (if any) still has room */
+    const withinBudget = () => !retryBudget || retryBudget.tryRetry();
+
+    retryBudget?.recordRequest();
+
+    while (true) {
+        if (callerSignal?.aborted) {
+            throw abortError();
+        }
+
+        // Bursts queue per origin instead of flooding the server
+        let releaseSlot = () => { };
+        if (concurrency) {
+            try {
+                releaseSlot = await concurrency.acquire(origin, callerSignal);
+            } catch {
+                throw abortError();
+            }
+        }
+
+        // Open circuits reject immediately instead of waiting through retries
+        try {
+            circuitBreaker?.acquire(origin);
+        } catch (error) {
+            releaseSlot();
+            throw giveUp(error as Error, false);
+        }
+
+        const controller = new AbortController();
+        let timedOut = false;
+        const timeoutId = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeout);
+        const unlink = linkSignal(callerSignal, controller);
+        const startedAt = Date.now();
+        const attemptNumber = attempts.length + 1;
+
+        // Listeners may add headers (e.g. traceparent) to this attempt only
+        let attemptOptions = finalOptions;
+        if (onEvent) {
+            const headers = new Headers(finalOptions.headers);
+            emit({ type: 'attempt-start', attempt: attemptNumber, headers });
+            attemptOptions = { ...finalOptions, headers };
+        }
+
+        let response: Response;
+        try {
+            response = hedging
+                ? await hedgedFetch(async (signal, index) => {
+                    // Each hedge holds its own slot, so hedging stays within the per-origin limit
+                    if (!concurrency || index === 0) return send(attemptOptions, signal);
+                    const release = await concurrency.acquire(origin, signal);
+                    try {
+                        return await send(attemptOptions, signal);
+                    } finally {
+                        release();
+                    }
+                }, controller.signal, hedging)
+                : await send(attemptOptions, controller.signal);
+        } catch (error) {
+            clearTimeout(timeoutId);
+            unlink();
+            releaseSlot();
+            attempt++;
+
+            const isAbort = (error as Error).name === 'AbortError' || controller.signal.aborted;
+            const outcome = !isAbort ? 'network-error' : timedOut ? 'timeout' : 'aborted';
+            const duration = Date.now() - startedAt;
+            attempts.push({ attempt: attemptNumber, startedAt, duration, outcome, error: error as Error });
+
+            if (outcome === 'aborted') {
+                circuitBreaker?.release(origin);
+                throw abortError();
+            }
+
+            const details = { url: finalUrl, attempts: [...attempts], cause: error };
+            const err = outcome === 'timeout'
+                ? new TimeoutError(timeout, details)
+                : new NetworkError(details);
+
+            circuitBreaker?.record(origin, err, null);
+            emit(outcome === 'timeout'
+                ? { type: 'attempt-timeout', attempt: attemptNumber, duration, timeout }
+                : { type: 'attempt-error', attempt: attemptNumber, duration, error: err });
+
+            // Call error handler
+            if (onError) {
+                onError(err);
+            }
+
+            // Check if we should retry
+            if (attempt <= maxRetries && retryOn(err, null) && withinBudget()) {
+                const delay = calculateDelay(attempt, retryDelay, backoff, maxRetryDelay);
+                emit({ type: 'retry-scheduled', attempt: attemptNumber, delay, error: err });
+                await backoffSleep(delay);
+                continue;
+            }
+
+            throw giveUp(err, false);
+        }
+
+        clearTimeout(timeoutId);
+        unlink();
+        releaseSlot();
+        circuitBreaker?.record(origin, null, response);
+        const duration = Date.now() - startedAt;
+        attempts.push({
+            attempt: attemptNumber,
+            startedAt,
+            duration,
+            outcome: response.ok || response.status === 304 ? 'success' : 'http-error',
+            status: response.status
+        });
+        emit({ type: 'attempt-response', attempt: attemptNumber, duration, status: response.status });
+
+        // 304 answers a conditional request and is not an error
+        if (!response.ok && response.status !== 304) {
+            // Check if we should retry
+            if (attempt < maxRetries && retryOn(null, response) && withinBudget()) {
+                attempt++;
+                const serverDelay = respectRetryAfter ? getRetryAfter(response) : null;
+                const delay = calculateDelay(attempt, retryDelay, backoff, maxRetryDelay, serverDelay);
+                emit({ type: 'retry-scheduled', attempt: attemptNumber, delay, status: response.status });
+                await backoffSleep(delay);
+                continue;
+            }
+
+            throw giveUp(new HttpError(response, { url: finalUrl, attempts: [...attempts] }));
+        }
+
+        emit({ type: 'success', attempts: attempts.length, status: response.status });
+
+        if (onDownloadProgress || resumable) {
+            // Only resume when the server accepts ranges and a strong validator guards against a changed file
+            const etag = response.headers.get('etag');
+            const validator = etag && !etag.startsWith('W/') ? etag : response.headers.get('last-modified');
+            const rangeable = resumable && response.status === 200 && response.headers.get('accept-ranges') === 'bytes';
+            response = trackDownload(response, {
+                onProgress: onDownloadProgress,
+                resume: rangeable ? offset => resumeFrom(offset, validator) : undefined,
+                maxResumes: Math.max(0, maxRetries - attempt)
+            });
+        }
+
+        // Apply response interceptor
+        if (onResponse) {
+            return await onResponse(response);
+        }
+
+        return response;
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * Reads a response header, tolerating responses without a Headers object.
+ */
+function getHeader(response: Response, name: string): string | null {
+    return response.headers?.get(name) ?? null;
+}
+
+/**
+ * Parses a delta-seconds value ("120", "1.5") into milliseconds.
+ */
+function parseSeconds(value: string): number | null {
+    if (!/^\s*\d+(\.\d+)?\s*$/.test(value)) return null;
+    return parseFloat(value) * 1000;
+}
+
+/**
+ * Parses a rate-limit reset value, which servers send either as delta seconds
+ * or as a Unix timestamp in seconds (or, rarely, milliseconds).
+ */
+function parseReset(value: string, now: number): number | null {
+    const ms = parseSeconds(value);
+    if (ms === null) return null;
+
+    const raw = ms / 1000;
+    if (raw > 1e12) return raw - now;          // epoch milliseconds
+    if (raw > 1e9) return raw * 1000 - now;    // epoch seconds
+    return ms;
+}
+
+/**
+ * Extracts the server-requested retry delay in ms from `Retry-After`
+ * (seconds or HTTP-date) or the `RateLimit-Reset` / `X-RateLimit-Reset` family.
+ * Returns null when the response carries no usable hint.
+ */
+export function getRetryAfter(response: Response, now: number = Date.now()): number | null {
+    const retryAfter = getHeader(response, 'retry-after');
+    if (retryAfter) {
+        const seconds = parseSeconds(retryAfter);
+        if (seconds !== null) return seconds;
+
+        const date = Date.parse(retryAfter);
+        if (!isNaN(date)) return Math.max(0, date - now);
+    }
+
+    const resetAfter = getHeader(response, 'x-ratelimit-reset-after');
+    if (resetAfter) {
+        const seconds = parseSeconds(resetAfter);
+        if (seconds !== null) return seconds;
+    }
+
+    for (const name of ['ratelimit-reset', 'x-ratelimit-reset', 'x-rate-limit-reset']) {
+        const value = getHeader(response, name);
+        if (!value) continue;
+        const delay = parseReset(value, now);
+        if (delay !== null) return Math.max(0, delay);
+    }
+
+    return null;
+}
@@ -0,0 +1,62 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRetryBudget, createFetcher, NetworkError } from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe('createRetryBudget', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('allows retries up to the ratio of requests', () => {
+        const budget = createRetryBudget({ ratio: 0.1, minRetries: 0 });
+
+        for (let i = 0; i < 20; i++) budget.recordRequest();
+
+        expect(budget.tryRetry()).toBe(true);
+        expect(budget.tryRetry()).toBe(true);
+        expect(budget.tryRetry()).toBe(false);
+        expect(budget.stats()).toEqual({ requests: 20, retries: 2, available: 0 });
+    });
+
+    test('always allows minRetries per window', () => {
+        const budget = createRetryBudget({ minRetries: 1 });
+
+        expect(budget.tryRetry()).toBe(true);
+        expect(budget.tryRetry()).toBe(false);
+    });
+
+    test('forgets requests and retries outside the sliding window', () => {
+        const budget = createRetryBudget({ minRetries: 1, window: 1000 });
+
+        expect(budget.tryRetry()).toBe(true);
+        vi.advanceTimersByTime(1000);
+
+        expect(budget.stats()).toEqual({ requests: 0, retries: 0, available: 1 });
+        expect(budget.tryRetry()).toBe(true);
+    });
+
+    test('stops retrying once the shared budget is spent', async () => {
+        mockFetch.mockRejectedValue(new Error('down'));
+        const api = createFetcher({
+            retries: 5,
+            retryDelay: 10,
+            retryBudget: createRetryBudget({ ratio: 0, minRetries: 2 })
+        });
+
+        const first = api.get('https://example.com').catch(e => e);
+        await vi.advanceTimersByTimeAsync(20);
+        expect(await first).toBeInstanceOf(NetworkError);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+
+        // Budget exhausted: the next request fails after a single attempt
+        expect(await api.get('https://example.com').catch(e => e)).toBeInstanceOf(NetworkError);
+        expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+});
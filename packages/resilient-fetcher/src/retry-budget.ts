@@ -0,0 +1,71 @@
+export interface RetryBudgetOptions {
+    /** Maximum retries as a fraction of requests in the window (default: 0.1) */
+    ratio?: number;
+    /** Sliding window length in ms (default: 10000) */
+    window?: number;
+    /** Retries always allowed per window, so low traffic can still retry (default: 10) */
+    minRetries?: number;
+}
+
+export interface RetryBudgetStats {
+    /** Requests started within the window */
+    requests: number;
+    /** Retries spent within the window */
+    retries: number;
+    /** Retries still available within the window */
+    available: number;
+}
+
+export interface RetryBudget {
+    /** Counts a new logical request towards the budget */
+    recordRequest: () => void;
+    /** Spends one retry if the budget allows it; returns false when exhausted */
+    tryRetry: () => boolean;
+    /** Current usage, for dashboards */
+    stats: () => RetryBudgetStats;
+}
+
+/**
+ * Creates a retry budget shared across requests. During an outage it caps
+ * retries at a fraction of overall traffic instead of multiplying load by
+ * `retries + 1`.
+ *
+ * @example
+ * const retryBudget = createRetryBudget({ ratio: 0.1, window: 10000 });
+ * await resilientFetch(url, { retryBudget });
+ */
+export function createRetryBudget(options: RetryBudgetOptions = {}): RetryBudget {
+    const { ratio = 0.1, window = 10000, minRetries = 10 } = options;
+
+    const requests: number[] = [];
+    const retries: number[] = [];
+
+    function prune(): void {
+        const cutoff = Date.now() - window;
+        while (requests.length && requests[0] <= cutoff) requests.shift();
+        while (retries.length && retries[0] <= cutoff) retries.shift();
+    }
+
+    function available(): number {
+        prune();
+        const allowed = Math.max(minRetries, Math.floor(requests.length * ratio));
+        return Math.max(0, allowed - retries.length);
+    }
+
+    return {
+        recordRequest() {
+            requests.push(Date.now());
+        },
+
+        tryRetry() {
+            if (available() <= 0) return false;
+            retries.push(Date.now());
+            return true;
+        },
+
+        stats() {
+            const remaining = available();
+            return { requests: requests.length, retries: retries.length, available: remaining };
+        }
+    };
+}
@@ -0,0 +1,268 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resilientFetch, createFetcher, HttpError, TimeoutError } from './index';
+import { createMockTransport, createRecorder } from './testing';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe('fetch option', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    test('sends attempts through the given fetch instead of the global one', async () => {
+        const custom = vi.fn().mockResolvedValue(new Response('custom'));
+
+        const response = await resilientFetch('https://example.com', { fetch: custom });
+
+        expect(await response.text()).toBe('custom');
+        expect(custom).toHaveBeenCalledWith('https://example.com', expect.objectContaining({ signal: expect.anything() }));
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('is inherited by fetcher instances', async () => {
+        const transport = createMockTransport().on('GET', '/users', { json: [] });
+        const api = createFetcher({ baseURL: 'https://api.example.com', fetch: transport.fetch });
+
+        const response = await api.get('/users');
+
+        expect(await response.json()).toEqual([]);
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+});
+
+describe('createMockTransport', () => {
+    test('plays scripted replies in order and repeats the last one', async () => {
+        const transport = createMockTransport().on('GET', '/items', 503, 503, { json: { ok: true } });
+
+        const response = await resilientFetch('https://example.com/items', {
+            fetch: transport.fetch,
+            retryDelay: 0
+        });
+
+        expect(await response.json()).toEqual({ ok: true });
+        expect(transport.calls).toHaveLength(3);
+
+        const again = await transport.fetch('https://example.com/items');
+        expect(again.status).toBe(200);
+    });
+
+    test('matches by method, full URL, path with query, RegExp and predicate', async () => {
+        const transport = createMockTransport()
+            .on('POST', '/users', 201)
+            .on('GET', 'https://example.com/exact', 200)
+            .on('GET', '/search?q=a', 202)
+            .on('*', /\/files\/\d+$/, 203)
+            .on('DELETE', request => request.headers.get('x-admin') === '1', 204);
+
+        expect((await transport.fetch('https://example.com/users', { method: 'POST' })).status).toBe(201);
+        expect((await transport.fetch('https://example.com/exact')).status).toBe(200);
+        expect((await transport.fetch('https://example.com/search?q=a')).status).toBe(202);
+        expect((await transport.fetch('https://example.com/files/7', { method: 'PUT' })).status).toBe(203);
+        expect((await transport.fetch('https://example.com/x', { method: 'DELETE', headers: { 'x-admin': '1' } })).status).toBe(204);
+        await expect(transport.fetch('https://example.com/users')).rejects.toThrow('No mock route matches GET https://example.com/users');
+    });
+
+    test('uses the unmatched reply for unknown requests', async () => {
+        const transport = createMockTransport({ unmatched: 404 });
+
+        const response = await transport.fetch('https://example.com/missing');
+
+        expect(response.status).toBe(404);
+    });
+
+    test('builds replies from the request', async () => {
+        const transport = createMockTransport().on('POST', '/echo', async request => ({
+            json: { body: await request.text(), auth: request.headers.get('authorization') }
+        }));
+
+        const response = await transport.fetch('https://example.com/echo', {
+            method: 'POST',
+            body: 'hello',
+            headers: { Authorization: 'Bearer t' }
+        });
+
+        expect(await response.json()).toEqual({ body: 'hello', auth: 'Bearer t' });
+        expect(await transport.calls[0].text()).toBe('hello');
+    });
+
+    test('fails like a network error', async () => {
+        const transport = createMockTransport().on('GET', '/flaky', new TypeError('Failed to fetch'), 200);
+
+        const response = await resilientFetch('https://example.com/flaky', { fetch: transport.fetch, retryDelay: 0 });
+
+        expect(response.status).toBe(200);
+        expect(transport.calls).toHaveLength(2);
+    });
+
+    test('gives up with HttpError once the script runs out of retries', async () => {
+        const transport = createMockTransport().on('GET', '/down', 503);
+
+        const error = await resilientFetch('https://example.com/down', {
+            fetch: transport.fetch,
+            retries: 2,
+            retryDelay: 0
+        }).catch(e => e);
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect(error.attemptCount).toBe(3);
+    });
+
+    test('reset removes routes and calls', async () => {
+        const transport = createMockTransport().on('GET', '/a', 200);
+        await transport.fetch('https://example.com/a');
+
+        transport.reset();
+
+        expect(transport.calls).toHaveLength(0);
+        await expect(transport.fetch('https://example.com/a')).rejects.toThrow('No mock route');
+    });
+
+    describe('with fake timers', () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        test('delays replies in virtual time', async () => {
+            const transport = createMockTransport().on('GET', '/slow', { status: 200, delay: 1000 });
+            let settled = false;
+
+            const promise = transport.fetch('https://example.com/slow').then(response => {
+                settled = true;
+                return response;
+            });
+            await vi.advanceTimersByTimeAsync(999);
+            expect(settled).toBe(false);
+
+            await vi.advanceTimersByTimeAsync(1);
+            expect((await promise).status).toBe(200);
+        });
+
+        test('slow replies trigger timeouts and retries', async () => {
+            const transport = createMockTransport().on('GET', '/slow', { delay: 10000 }, 200);
+
+            const promise = resilientFetch('https://example.com/slow', {
+                fetch: transport.fetch,
+                timeout: 1000,
+                retryDelay: 500
+            });
+            await vi.advanceTimersByTimeAsync(1500);
+
+            expect((await promise).status).toBe(200);
+            expect(transport.calls).toHaveLength(2);
+        });
+
+        test('a delayed reply rejects when aborted', async () => {
+            const transport = createMockTransport({ delay: 5000 }).on('GET', '/slow', 200);
+
+            const promise = resilientFetch('https://example.com/slow', {
+                fetch: transport.fetch,
+                timeout: 1000,
+                retries: 0
+            });
+            const assertion = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+            await vi.advanceTimersByTimeAsync(1000);
+
+            await assertion;
+        });
+    });
+});
+
+describe('createRecorder', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'resilient-fetcher-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    test('records exchanges to a HAR-like file and replays them', async () => {
+        const path = join(dir, 'fixtures', 'users.har.json');
+        const upstream = createMockTransport()
+            .on('GET', '/users', 503, { json: [{ id: 1 }] })
+            .on('GET', '/avatar', { body: new Uint8Array([1, 2, 3]), headers: { 'Content-Type': 'image/png' } });
+
+        const recorder = createRecorder({ path, mode: 'record', fetch: upstream.fetch });
+        await resilientFetch('https://example.com/users', {
+            fetch: recorder.fetch,
+            retryDelay: 0,
+            headers: { Authorization: 'Bearer secret' }
+        });
+        await resilientFetch('https://example.com/avatar', { fetch: recorder.fetch });
+        await recorder.save();
+
+        const har = JSON.parse(await readFile(path, 'utf8'));
+        expect(har.log.version).toBe('1.2');
+        expect(har.log.entries).toHaveLength(3);
+        expect(har.log.entries[0].response.status).toBe(503);
+        expect(har.log.entries[1].response.content).toMatchObject({ mimeType: 'application/json', text: '[{"id":1}]' });
+        expect(har.log.entries[2].response.content).toMatchObject({ encoding: 'base64', text: 'AQID' });
+        expect(JSON.stringify(har)).not.toContain('secret');
+
+        const replayer = createRecorder({ path });
+        const users = await resilientFetch('https://example.com/users', { fetch: replayer.fetch, retryDelay: 0 });
+        const avatar = await resilientFetch('https://example.com/avatar', { fetch: replayer.fetch });
+
+        expect(await users.json()).toEqual([{ id: 1 }]);
+        expect(new Uint8Array(await avatar.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    test('redacts configured request and response headers', async () => {
+        const path = join(dir, 'session.har.json');
+        const upstream = createMockTransport().on('GET', '/login', {
+            headers: { 'Set-Cookie': 'session=token', 'X-Api-Key': 'key', 'X-Trace': 'trace' }
+        });
+
+        const recorder = createRecorder({ path, mode: 'record', fetch: upstream.fetch });
+        await recorder.fetch('https://example.com/login', { headers: { Cookie: 'old=1', 'X-Tenant': 'acme' } });
+        const custom = createRecorder({
+            path,
+            mode: 'record',
+            fetch: upstream.fetch,
+            redactHeaders: ['x-tenant'],
+            redactResponseHeaders: ['X-Api-Key']
+        });
+        await custom.fetch('https://example.com/login', { headers: { 'X-Tenant': 'acme' } });
+
+        const [defaults] = recorder.entries;
+        expect(defaults.request.headers.map(header => header.name)).toEqual(['x-tenant']);
+        expect(defaults.response.headers.map(header => header.name)).not.toContain('set-cookie');
+        const [configured] = custom.entries;
+        expect(configured.request.headers).toEqual([]);
+        expect(configured.response.headers.map(header => header.name)).toEqual(['set-cookie', 'x-trace']);
+    });
+
+    test('matches request bodies when replaying', async () => {
+        const path = join(dir, 'search.har.json');
+        const upstream = createMockTransport().on('POST', '/search', async request => ({ json: { q: await request.text() } }));
+
+        const recorder = createRecorder({ path, mode: 'record', fetch: upstream.fetch });
+        await recorder.fetch('https://example.com/search', { method: 'POST', body: 'a' });
+        await recorder.fetch('https://example.com/search', { method: 'POST', body: 'b' });
+        await recorder.save();
+
+        const replayer = createRecorder({ path });
+        const response = await replayer.fetch('https://example.com/search', { method: 'POST', body: 'b' });
+
+        expect(await response.json()).toEqual({ q: 'b' });
+    });
+
+    test('rejects requests missing from the fixture', async () => {
+        const path = join(dir, 'empty.har.json');
+        await createRecorder({ path, mode: 'record' }).save();
+
+        const replayer = createRecorder({ path });
+
+        await expect(replayer.fetch('https://example.com/nope')).rejects.toThrow('No recorded response for GET https://example.com/nope');
+    });
+});
@@ -0,0 +1,9 @@
+/**
+ * Test utilities, published as `resilient-fetcher/testing` so the Node-only
+ * recorder stays out of the main bundle.
+ */
+export { createMockTransport } from './mock-transport.js';
+export type { MockTransport, MockTransportOptions, MockReply, MockResponseInit, RouteMatcher } from './mock-transport.js';
+
+export { createRecorder } from './recorder.js';
+export type { Recorder, RecorderOptions, HarEntry, HarHeader, HarLog } from './recorder.js';
@@ -0,0 +1,157 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    resilientFetch,
+    createTracingHooks,
+    createTracer,
+    createInMemorySpanExporter,
+    createCircuitBreaker,
+    SpanStatusCode,
+    type FetchEvent
+} from './index';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe('observability', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('onEvent', () => {
+        test('emits the lifecycle of a retried request', async () => {
+            const events: FetchEvent[] = [];
+            mockFetch
+                .mockResolvedValueOnce({ ok: false, status: 503 })
+                .mockImplementationOnce(() => new Promise(resolve => {
+                    setTimeout(() => resolve({ ok: true, status: 200 }), 30);
+                }));
+
+            const promise = resilientFetch('https://example.com/data', {
+                retries: 1,
+                retryDelay: 100,
+                onEvent: event => events.push(event)
+            });
+            await vi.advanceTimersByTimeAsync(130);
+            await promise;
+
+            expect(events.map(e => e.type)).toEqual([
+                'attempt-start',
+                'attempt-response',
+                'retry-scheduled',
+                'attempt-start',
+                'attempt-response',
+                'success'
+            ]);
+            expect(events[2]).toMatchObject({ delay: 100, status: 503, attempt: 1 });
+            expect(events[4]).toMatchObject({ attempt: 2, duration: 30, status: 200 });
+            expect(events[5]).toMatchObject({ attempts: 2, elapsed: 130, url: 'https://example.com/data', method: 'GET' });
+            expect(new Set(events.map(e => e.requestId)).size).toBe(1);
+        });
+
+        test('emits timeout and give-up events', async () => {
+            const events: FetchEvent[] = [];
+            mockFetch.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+                init.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+            }));
+
+            const promise = resilientFetch('https://example.com', {
+                retries: 0,
+                timeout: 50,
+                onEvent: event => events.push(event)
+            }).catch(() => { });
+            await vi.advanceTimersByTimeAsync(50);
+            await promise;
+
+            expect(events.map(e => e.type)).toEqual(['attempt-start', 'attempt-timeout', 'give-up']);
+            expect(events[1]).toMatchObject({ duration: 50, timeout: 50 });
+        });
+
+        test('attempt-start listeners can add headers to the attempt', async () => {
+            mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+            await resilientFetch('https://example.com', {
+                headers: { Accept: 'text/plain' },
+                onEvent: event => {
+                    if (event.type === 'attempt-start') event.headers.set('X-Attempt', String(event.attempt));
+                }
+            });
+
+            const headers: Headers = mockFetch.mock.calls[0][1].headers;
+            expect(headers.get('X-Attempt')).toBe('1');
+            expect(headers.get('Accept')).toBe('text/plain');
+        });
+    });
+
+    describe('createTracingHooks', () => {
+        test('records a request span with a child span per attempt', async () => {
+            const exporter = createInMemorySpanExporter();
+            mockFetch
+                .mockRejectedValueOnce(new TypeError('connection reset'))
+                .mockResolvedValueOnce({ ok: true, status: 200 });
+
+            const promise = resilientFetch('https://api.example.com:8443/users', {
+                retries: 1,
+                retryDelay: 10,
+                onEvent: createTracingHooks(createTracer({ exporter }))
+            });
+            await vi.advanceTimersByTimeAsync(10);
+            await promise;
+
+            const [first, second, request] = exporter.getFinishedSpans();
+            expect(request).toMatchObject({
+                name: 'HTTP GET',
+                status: { code: SpanStatusCode.OK },
+                attributes: {
+                    'http.request.method': 'GET',
+                    'url.full': 'https://api.example.com:8443/users',
+                    'server.address': 'api.example.com',
+                    'server.port': 8443,
+                    'http.response.status_code': 200
+                }
+            });
+            expect(request.events.map(e => e.name)).toEqual(['retry']);
+
+            expect(first).toMatchObject({
+                kind: 'client',
+                parentSpanId: request.spanId,
+                traceId: request.traceId,
+                status: { code: SpanStatusCode.ERROR },
+                attributes: { 'http.request.resend_count': 0, 'error.type': 'NetworkError' }
+            });
+            expect(second.attributes).toMatchObject({ 'http.request.resend_count': 1, 'http.response.status_code': 200 });
+        });
+
+        test('injects a traceparent header for each attempt span', async () => {
+            const exporter = createInMemorySpanExporter();
+            mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+            await resilientFetch('https://example.com', {
+                onEvent: createTracingHooks(createTracer({ exporter }))
+            });
+
+            const [attempt] = exporter.getFinishedSpans();
+            expect(mockFetch.mock.calls[0][1].headers.get('traceparent'))
+                .toBe(`00-${attempt.traceId}-${attempt.spanId}-01`);
+        });
+
+        test('records a failed span when the request is rejected up front', async () => {
+            const exporter = createInMemorySpanExporter();
+            const breaker = createCircuitBreaker({ failureThreshold: 1 });
+            breaker.record('https://example.com', new Error('down'), null);
+
+            await resilientFetch('https://example.com', {
+                circuitBreaker: breaker,
+                onEvent: createTracingHooks(createTracer({ exporter }))
+            }).catch(() => { });
+
+            const [span] = exporter.getFinishedSpans();
+            expect(span.status.code).toBe(SpanStatusCode.ERROR);
+            expect(span.attributes['error.type']).toBe('CircuitOpenError');
+        });
+    });
+});
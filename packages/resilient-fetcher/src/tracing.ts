@@ -0,0 +1,280 @@
+import type { FetchEvent } from './types.js';
+
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue>;
+
+/** Span status codes, numerically compatible with OpenTelemetry */
+export const SpanStatusCode = { UNSET: 0, OK: 1, ERROR: 2 } as const;
+export type SpanStatusCode = typeof SpanStatusCode[keyof typeof SpanStatusCode];
+
+export interface SpanContext {
+    traceId: string;
+    spanId: string;
+    traceFlags: number;
+}
+
+/**
+ * The subset of the OpenTelemetry Span API used by the tracing hooks.
+ */
+export interface Span {
+    spanContext: () => SpanContext;
+    setAttribute: (key: string, value: AttributeValue) => unknown;
+    addEvent: (name: string, attributes?: Attributes) => unknown;
+    setStatus: (status: { code: SpanStatusCode; message?: string }) => unknown;
+    recordException: (exception: Error) => unknown;
+    end: (endTime?: number) => void;
+}
+
+export interface SpanOptions {
+    kind?: 'client' | 'internal';
+    attributes?: Attributes;
+    startTime?: number;
+    /** Parent span; omitted for root spans */
+    parent?: SpanContext;
+}
+
+/**
+ * Starts spans. Wrap an OpenTelemetry tracer to satisfy it, or use createTracer.
+ */
+export interface Tracer {
+    startSpan: (name: string, options?: SpanOptions) => Span;
+}
+
+/**
+ * A finished span as handed to exporters.
+ */
+export interface ReadableSpan {
+    name: string;
+    kind: 'client' | 'internal';
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    attributes: Attributes;
+    events: { name: string; attributes: Attributes; time: number }[];
+    status: { code: SpanStatusCode; message?: string };
+    startTime: number;
+    endTime: number;
+}
+
+export interface SpanExporter {
+    export: (spans: ReadableSpan[]) => void;
+}
+
+export interface InMemorySpanExporter extends SpanExporter {
+    /** Spans exported so far, in the order they ended */
+    getFinishedSpans: () => ReadableSpan[];
+    reset: () => void;
+}
+
+/**
+ * Creates an exporter that keeps finished spans in memory, for tests.
+ */
+export function createInMemorySpanExporter(): InMemorySpanExporter {
+    let spans: ReadableSpan[] = [];
+    return {
+        export: finished => {
+            spans.push(...finished);
+        },
+        getFinishedSpans: () => [...spans],
+        reset: () => {
+            spans = [];
+        }
+    };
+}
+
+function randomHex(bytes: number): string {
+    let hex = '';
+    for (let i = 0; i < bytes; i++) {
+        hex += Math.floor(Math.random() * 256).toString(16).padStart(2, '0');
+    }
+    return hex;
+}
+
+/**
+ * Creates a minimal tracer that hands finished spans to an exporter.
+ */
+export function createTracer(options: { exporter: SpanExporter }): Tracer {
+    const { exporter } = options;
+
+    return {
+        startSpan(name, spanOptions = {}) {
+            const context: SpanContext = {
+                traceId: spanOptions.parent?.traceId ?? randomHex(16),
+                spanId: randomHex(8),
+                traceFlags: 1
+            };
+            const record: ReadableSpan = {
+                name,
+                kind: spanOptions.kind ?? 'internal',
+                traceId: context.traceId,
+                spanId: context.spanId,
+                parentSpanId: spanOptions.parent?.spanId,
+                attributes: { ...spanOptions.attributes },
+                events: [],
+                status: { code: SpanStatusCode.UNSET },
+                startTime: spanOptions.startTime ?? Date.now(),
+                endTime: 0
+            };
+            let ended = false;
+
+            const span: Span = {
+                spanContext: () => context,
+                setAttribute: (key, value) => {
+                    record.attributes[key] = value;
+                    return span;
+                },
+                addEvent: (eventName, attributes = {}) => {
+                    record.events.push({ name: eventName, attributes, time: Date.now() });
+                    return span;
+                },
+                setStatus: status => {
+                    record.status = status;
+                    return span;
+                },
+                recordException: exception => {
+                    record.events.push({
+                        name: 'exception',
+                        attributes: { 'exception.type': exception.name, 'exception.message': exception.message },
+                        time: Date.now()
+                    });
+                    return span;
+                },
+                end: endTime => {
+                    if (ended) return;
+                    ended = true;
+                    record.endTime = endTime ?? Date.now();
+                    exporter.export([record]);
+                }
+            };
+            return span;
+        }
+    };
+}
+
+/**
+ * Formats a W3C traceparent header value.
+ */
+export function formatTraceparent(context: SpanContext): string {
+    return `00-${context.traceId}-${context.spanId}-${context.traceFlags.toString(16).padStart(2, '0')}`;
+}
+
+export interface TracingOptions {
+    /** Parent for the request span, e.g. the active server span */
+    parent?: SpanContext;
+    /** Inject a W3C traceparent header into each attempt (default: true) */
+    propagate?: boolean;
+}
+
+/**
+ * Creates an `onEvent` handler that records one span per request with a
+ * child span per attempt, using OpenTelemetry HTTP semantic-convention
+ * attributes, and injects `traceparent` into each attempt.
+ *
+ * @example
+ * const exporter = createInMemorySpanExporter();
+ * const onEvent = createTracingHooks(createTracer({ exporter }));
+ * await resilientFetch(url, { onEvent });
+ * exporter.getFinishedSpans(); // request span + one span per attempt
+ */
+export function createTracingHooks(tracer: Tracer, options: TracingOptions = {}): (event: FetchEvent) => void {
+    const { parent, propagate = true } = options;
+    const requests = new Map<string, { span: Span; attempt?: Span }>();
+
+    const endAttempt = (state: { attempt?: Span }, time: number) => {
+        state.attempt?.end(time);
+        state.attempt = undefined;
+    };
+
+    return event => {
+        let state = requests.get(event.requestId);
+
+        switch (event.type) {
+            case 'attempt-start': {
+                if (!state) {
+                    const url = safeURL(event.url);
+                    state = {
+                        span: tracer.startSpan(`HTTP ${event.method}`, {
+                            kind: 'internal',
+                            parent,
+                            startTime: event.timestamp - event.elapsed,
+                            attributes: {
+                                'http.request.method': event.method,
+                                'url.full': event.url,
+                                ...(url && { 'server.address': url.hostname }),
+                                ...(url?.port && { 'server.port': Number(url.port) })
+                            }
+                        })
+                    };
+                    requests.set(event.requestId, state);
+                }
+                state.attempt = tracer.startSpan(event.method, {
+                    kind: 'client',
+                    parent: state.span.spanContext(),
+                    startTime: event.timestamp,
+                    attributes: {
+                        'http.request.method': event.method,
+                        'url.full': event.url,
+                        'http.request.resend_count': event.attempt - 1
+                    }
+                });
+                if (propagate) {
+                    event.headers.set('traceparent', formatTraceparent(state.attempt.spanContext()));
+                }
+                break;
+            }
+            case 'attempt-response':
+                if (!state?.attempt) break;
+                state.attempt.setAttribute('http.response.status_code', event.status);
+                if (event.status >= 400) {
+                    state.attempt.setAttribute('error.type', String(event.status));
+                    state.attempt.setStatus({ code: SpanStatusCode.ERROR });
+                }
+                endAttempt(state, event.timestamp);
+                break;
+            case 'attempt-timeout':
+            case 'attempt-error': {
+                if (!state?.attempt) break;
+                const errorType = event.type === 'attempt-timeout' ? 'timeout' : event.error.name;
+                state.attempt.setAttribute('error.type', errorType);
+                state.attempt.setStatus({ code: SpanStatusCode.ERROR, message: event.type === 'attempt-error' ? event.error.message : 'timeout' });
+                if (event.type === 'attempt-error') state.attempt.recordException(event.error);
+                endAttempt(state, event.timestamp);
+                break;
+            }
+            case 'retry-scheduled':
+                state?.span.addEvent('retry', { 'retry.delay_ms': event.delay, 'retry.attempt': event.attempt });
+                break;
+            case 'success':
+                if (!state) break;
+                state.span.setAttribute('http.response.status_code', event.status);
+                state.span.setStatus({ code: SpanStatusCode.OK });
+                state.span.end(event.timestamp);
+                requests.delete(event.requestId);
+                break;
+            case 'give-up': {
+                // Requests rejected before any attempt (e.g. open circuit) still get a span
+                const span = state?.span ?? tracer.startSpan(`HTTP ${event.method}`, {
+                    kind: 'internal',
+                    parent,
+                    startTime: event.timestamp - event.elapsed,
+                    attributes: { 'http.request.method': event.method, 'url.full': event.url }
+                });
+                if (state) endAttempt(state, event.timestamp);
+                span.setAttribute('error.type', event.error.name);
+                span.setStatus({ code: SpanStatusCode.ERROR, message: event.error.message });
+                span.recordException(event.error);
+                span.end(event.timestamp);
+                requests.delete(event.requestId);
+                break;
+            }
+        }
+    };
+}
+
+function safeURL(url: string): URL | null {
+    try {
+        return new URL(url);
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,101 @@
+import type { CircuitBreaker } from './circuit-breaker.js';
+import type { DedupeOptions } from './dedupe.js';
+import type { HttpCache } from './cache.js';
+import type { RetryBudget } from './retry-budget.js';
+import type { ConcurrencyLimiter } from './limiter.js';
+import type { HedgeOptions } from './hedge.js';
+import type { ProgressCallback } from './progress.js';
+
+export interface ResilientOptions {
+    /** Number of retry attempts (default: 3) */
+    retries?: number;
+    /** Delay between retries in ms (default: 1000) */
+    retryDelay?: number;
+    /** Request timeout in ms (default: 5000) */
+    timeout?: number;
+    /** Backoff strategy: 'fixed' | 'exponential' (default: 'fixed') */
+    backoff?: 'fixed' | 'exponential';
+    /** Upper bound for any single retry delay in ms, including server-requested ones (default: 60000) */
+    maxRetryDelay?: number;
+    /** Use Retry-After / RateLimit-Reset headers to pick the next delay (default: true) */
+    respectRetryAfter?: boolean;
+    /** Custom condition to determine if request should be retried (non-idempotent methods also need `idempotencyKey`) */
+    retryOn?: (error: Error | null, response: Response | null) => boolean;
+    /** Request interceptor */
+    onRequest?: (url: string, options: RequestInit) => RequestInit | Promise<RequestInit>;
+    /** Response interceptor */
+    onResponse?: (response: Response) => Response | Promise<Response>;
+    /** Error handler */
+    onError?: (error: Error) => void;
+    /** Circuit breaker shared across requests; open circuits reject immediately with CircuitOpenError */
+    circuitBreaker?: CircuitBreaker;
+    /** Retry budget shared across requests; retries stop once it is spent */
+    retryBudget?: RetryBudget;
+    /** Per-origin concurrency limiter; attempts beyond the limit are queued */
+    concurrency?: ConcurrencyLimiter;
+    /** Start parallel attempts when the first is slow; safe methods only unless `unsafe` is set */
+    hedge?: HedgeOptions;
+    /**
+     * Opts non-idempotent methods (POST, PATCH) into retries. `true` generates a key,
+     * a string is used as-is; the key is sent on every attempt of the request.
+     */
+    idempotencyKey?: boolean | string;
+    /** Header carrying the idempotency key (default: 'Idempotency-Key') */
+    idempotencyHeader?: string;
+    /** Receives structured lifecycle events for every attempt */
+    onEvent?: (event: FetchEvent) => void;
+    /**
+     * Reports request body progress. The body is sent untracked where the runtime
+     * can't stream request bodies, or rejects the stream (Chrome only streams over HTTP/2).
+     */
+    onUploadProgress?: ProgressCallback;
+    /** Reports response body progress as it is read */
+    onDownloadProgress?: ProgressCallback;
+    /** Resume downloads that fail mid-stream with a Range request (default: false) */
+    resumable?: boolean;
+    /** Share one underlying request between concurrent identical calls (default: false) */
+    dedupe?: boolean | DedupeOptions;
+    /** HTTP cache for GET requests, created with createHttpCache (`cache` is taken by RequestInit) */
+    httpCache?: HttpCache;
+    /** fetch implementation used to send each attempt (default: global fetch) */
+    fetch?: typeof fetch;
+}
+
+/** RequestInit extended with resilientFetch options */
+export type ResilientRequestInit = RequestInit & ResilientOptions;
+
+/**
+ * Lifecycle event payloads, before the shared fields are added.
+ * Durations and delays are in ms.
+ */
+export type FetchEventData =
+    /** An attempt is about to be sent; `headers` may be modified for this attempt */
+    | { type: 'attempt-start'; attempt: number; headers: Headers }
+    /** An attempt received a response (any status) */
+    | { type: 'attempt-response'; attempt: number; duration: number; status: number }
+    /** An attempt exceeded the timeout */
+    | { type: 'attempt-timeout'; attempt: number; duration: number; timeout: number }
+    /** An attempt failed without a response */
+    | { type: 'attempt-error'; attempt: number; duration: number; error: Error }
+    /** Another attempt will start after `delay`, because of `status` or `error` */
+    | { type: 'retry-scheduled'; attempt: number; delay: number; status?: number; error?: Error }
+    /** The request failed for good */
+    | { type: 'give-up'; attempts: number; error: Error }
+    /** The request succeeded */
+    | { type: 'success'; attempts: number; status: number }
+    /** A background refresh of a stale cached response failed */
+    | { type: 'revalidation-error'; error: Error };
+
+/**
+ * Structured lifecycle event emitted through the `onEvent` option.
+ */
+export type FetchEvent = FetchEventData & {
+    /** Correlates all events of one resilientFetch call */
+    requestId: string;
+    url: string;
+    method: string;
+    /** When the event happened (ms timestamp) */
+    timestamp: number;
+    /** Time since the request started, in ms */
+    elapsed: number;
+};